@@ -0,0 +1,142 @@
+import { existsSync, mkdirSync, promises as fs } from "fs";
+import path from "path";
+import { RunnableConfig } from "@langchain/core/runnables";
+import { MemorySaver, Checkpoint, CheckpointMetadata, CheckpointTuple } from "@langchain/langgraph";
+
+export const defaultCheckpointDirectory = ".deep-research/checkpoints";
+
+type PendingWrite = Parameters<MemorySaver["putWrites"]>[1][number];
+type ListOptions = Parameters<MemorySaver["list"]>[1];
+
+// Serialized values are UTF-8 JSON produced by the saver's serializer; they are kept as text on disk
+interface ThreadFile {
+  storage: Record<string, Record<string, [string, string, string | undefined]>>;
+  writes: Record<string, Record<string, [string, string, string]>>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toText(value: Uint8Array | string): string {
+  return typeof value === "string" ? value : decoder.decode(value);
+}
+
+// Checkpoint saver that persists every research thread to its own JSON file,
+// so an interrupted run can be resumed (or forked) by a later process.
+// A thread's file is read the first time the thread is used.
+export class FileCheckpointSaver extends MemorySaver {
+  private loaded = new Map<string, Promise<void>>();
+  private saving = new Map<string, Promise<void>>();
+
+  constructor(readonly directory: string = defaultCheckpointDirectory) {
+    super();
+    mkdirSync(directory, { recursive: true });
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    await this.loadThread(config.configurable?.thread_id);
+    return super.getTuple(config);
+  }
+
+  async *list(config: RunnableConfig, options?: ListOptions): AsyncGenerator<CheckpointTuple> {
+    // Without a thread, every thread is listed
+    const threadId: string | undefined = config.configurable?.thread_id;
+    await Promise.all((threadId === undefined ? await this.threadIds() : [threadId]).map(id => this.loadThread(id)));
+    yield* super.list(config, options);
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    await this.loadThread(config.configurable?.thread_id);
+    const result = await super.put(config, checkpoint, metadata);
+    await this.saveThread(config.configurable?.thread_id);
+    return result;
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    await this.loadThread(config.configurable?.thread_id);
+    await super.putWrites(config, writes, taskId);
+    await this.saveThread(config.configurable?.thread_id);
+  }
+
+  // Threads in memory or on disk
+  async threadIds(): Promise<string[]> {
+    const files = (await fs.readdir(this.directory)).filter(name => name.endsWith(".json"));
+    const ids = files.map(file => decodeURIComponent(file.slice(0, -".json".length)));
+    return Array.from(new Set([...Object.keys(this.storage), ...ids]));
+  }
+
+  hasThread(threadId: string): boolean {
+    return threadId in this.storage || existsSync(this.threadPath(threadId));
+  }
+
+  private threadPath(threadId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(threadId)}.json`);
+  }
+
+  // Read the thread's file into memory, once; a thread without a file starts empty
+  private loadThread(threadId: string | undefined): Promise<void> {
+    if (threadId === undefined) return Promise.resolve();
+    let loading = this.loaded.get(threadId);
+    if (!loading) {
+      loading = this.readThread(threadId);
+      this.loaded.set(threadId, loading);
+    }
+    return loading;
+  }
+
+  private async readThread(threadId: string): Promise<void> {
+    let data: ThreadFile;
+    try {
+      data = JSON.parse(await fs.readFile(this.threadPath(threadId), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    const storage: MemorySaver["storage"][string] = {};
+    for (const [namespace, checkpoints] of Object.entries(data.storage)) {
+      storage[namespace] = {};
+      for (const [checkpointId, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+        storage[namespace][checkpointId] = [encoder.encode(checkpoint), encoder.encode(metadata), parentId];
+      }
+    }
+    this.storage[threadId] = storage;
+    for (const [key, writes] of Object.entries(data.writes)) {
+      this.writes[key] = {};
+      for (const [writeKey, [taskId, channel, value]] of Object.entries(writes)) {
+        this.writes[key][writeKey] = [taskId, channel, encoder.encode(value)];
+      }
+    }
+  }
+
+  // Rewrite the thread's file after the saves of the thread before it; writes are keyed
+  // by JSON [threadId, namespace, checkpointId]
+  private saveThread(threadId: string | undefined): Promise<void> {
+    if (threadId === undefined) return Promise.resolve();
+    const previous = this.saving.get(threadId) ?? Promise.resolve();
+    const saved = previous.catch(() => {}).then(() => this.writeThread(threadId));
+    this.saving.set(threadId, saved);
+    return saved;
+  }
+
+  private async writeThread(threadId: string): Promise<void> {
+    const data: ThreadFile = { storage: {}, writes: {} };
+    for (const [namespace, checkpoints] of Object.entries(this.storage[threadId] ?? {})) {
+      data.storage[namespace] = {};
+      for (const [checkpointId, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+        data.storage[namespace][checkpointId] = [toText(checkpoint), toText(metadata), parentId];
+      }
+    }
+    for (const [key, writes] of Object.entries(this.writes)) {
+      if (JSON.parse(key)[0] !== threadId) continue;
+      data.writes[key] = {};
+      for (const [writeKey, [taskId, channel, value]] of Object.entries(writes)) {
+        data.writes[key][writeKey] = [taskId, channel, toText(value)];
+      }
+    }
+
+    const filePath = this.threadPath(threadId);
+    await fs.writeFile(`${filePath}.tmp`, JSON.stringify(data), "utf8");
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+}
@@ -0,0 +1,408 @@
+import { parseArgs } from "util";
+import { ReviewOptions } from "./models/review";
+import { Budget } from "./models/usage";
+import { SourcePolicy } from "./models/policy";
+import { ResearchConfigInput, ResearchPreset, researchPresets } from "./models/config";
+import { CitationMode, citationModes } from "./nodes/verify";
+import { ExportFormat, exportFormats, parseExportFormats } from "./export";
+import { LLMProviderName, RoleModels, llmProviderNames, isModelRole, modelRoles } from "./providers/llm";
+import { SearchDepth } from "./providers/search/types";
+import { SearchProviderName, parseSearchProviderNames } from "./providers/search";
+import { LogFormat, LogLevel, logFormats, logLevels } from "./utils/logger";
+
+// Options accepted on the command line
+export interface CliOptions {
+  topic?: string;
+  config: ResearchConfigInput; // Research settings given by flags; they override those of configFile
+  configFile?: string;
+  output?: string;
+  llmProvider?: LLMProviderName;
+  searchProviders?: SearchProviderName[];
+  corpusDir?: string;
+  searxngUrl?: string;
+  record?: string;
+  replay?: string;
+  noCache: boolean;
+  clearCache: boolean;
+  cacheDir?: string;
+  thread?: string;
+  resume?: string;
+  from?: string;
+  listCheckpoints?: string;
+  checkpointDir?: string;
+  reportPrompt?: string;
+  rewriteSections?: number[]; // Sections of a finished run's report to write again
+  review: ReviewOptions;
+  answer?: string;
+  exportFormats: ExportFormat[];
+  exportDir?: string;
+  json: boolean;
+  quiet: boolean;
+  logLevel?: LogLevel;
+  logFormat?: LogFormat;
+  help: boolean;
+}
+
+// Error thrown for invalid command-line usage (reported with exit code 2)
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+export const usage = `Usage: npx ts-node src/index.ts [options] [topic]
+
+Runs the deep research agent on a topic. If no topic argument is given,
+the topic is read from stdin.
+
+Options:
+  -p, --preset <name>        Research settings to start from: quick (one pass, few sources),
+                             standard (default) or exhaustive (more queries, iterations and sources)
+      --config <file>        JSON research settings (e.g. the "config" recorded by an earlier run
+                             in its --json output), overridden by the flags below
+  -i, --max-iterations <n>   Maximum search/evaluate iterations (standard: 3)
+  -q, --max-queries <n>      Maximum queries generated by the planner, in total (standard: 5)
+      --max-sub-questions <n> Sub-questions the topic is broken into, each researched in its own
+                             branch (standard: 3; quick: 1)
+  -r, --max-results <n>      Search results per query (standard: 5)
+      --search-depth <depth> Tavily search depth: basic or advanced (standard: basic)
+      --max-sources <n>      Sources kept for the report (standard: 10)
+      --max-report-tokens <n> Output tokens of the report, or of each of its sections (standard: 8192)
+      --report-mode <mode>   sections (outline, then one call per section; standard) or single
+                             (the whole report in one call; quick)
+  -c, --concurrency <n>      Searches and summaries run at the same time (default: 4)
+      --max-tokens <n>       Token budget of the run: research stops and the report is written
+                             once it is nearly used up (as with --max-time and --max-cost)
+      --max-cost <usd>       Budget of estimated model cost, in US dollars
+      --max-searches <n>     Budget of queries sent to the search providers
+      --max-time <seconds>   Budget of wall time
+      --include-domains <list> Comma-separated domains the sources must come from (a domain covers
+                             its subdomains; a suffix such as gov covers every domain ending in it)
+      --exclude-domains <list> Domains whose sources are dropped
+      --trusted-domains <list> Domains ranked above the others (default: government and academic
+                             suffixes such as gov, edu, ac.uk)
+      --untrusted-domains <list> Domains ranked below the others
+      --max-age <days>       Drop sources published longer ago (undated sources are kept)
+      --max-per-domain <n>   Sources of one domain in the report
+      --search-topic <topic> Tavily search topic: general, news (results are dated) or finance
+  -o, --output <path>        Write the report (or JSON with --json) to a file
+      --llm <provider>       LLM provider: gemini or openai (default: $LLM_PROVIDER or gemini)
+      --model <role>=<name>  Model for a role, repeatable. Roles: ${modelRoles.join(", ")}
+      --search <list>        Comma-separated search providers: tavily, searxng, local
+                             (default: $SEARCH_PROVIDERS or tavily)
+      --corpus <dir>         Folder searched by the local provider (default: $LOCAL_CORPUS_DIR)
+      --searxng-url <url>    SearXNG instance used by the searxng provider (default: $SEARXNG_URL)
+      --record <file>        Record every LLM and search call to a cassette file
+      --replay <file>        Replay a recorded cassette with no network access
+      --no-cache             Bypass the search and summary cache for this run
+      --clear-cache          Empty the cache before running (alone: only clear it)
+      --cache-dir <dir>      Cache folder (default: $RESEARCH_CACHE_DIR or .deep-research/cache)
+      --thread <id>          Thread ID the run's checkpoints are saved under (default: a new ID)
+      --resume <id>          Resume an interrupted run from its last completed node
+      --from <checkpoint>    With --resume, fork the run from an earlier checkpoint instead
+      --checkpoints <id>     List the checkpoints of a run and exit
+      --checkpoint-dir <dir> Checkpoint folder (default: $RESEARCH_CHECKPOINT_DIR or .deep-research/checkpoints)
+      --report-prompt <file> Use the prompt in this file to write the report (in a single call)
+      --rewrite-section <n>  With --resume, write again sections of a finished report (numbers
+                             from 1, in report order; comma-separated) and check its citations again
+      --review <points>      Pause for review: plan (edit the queries), sources (pin or
+                             exclude sources, add notes for the writer), or both: plan,sources
+      --answer <file>        With --resume, continue a paused run with the review in this JSON file
+      --language <lang>      Language of the report, as a code (pt, es...) or a name; the sources
+                             are summarized in it (default: auto, the language of the topic)
+      --query-languages <list> Comma-separated languages searched besides the topic's, e.g. en:
+                             the planner writes its queries in each of them
+      --citations <mode>     Citation check: flag (mark unsupported citations, default),
+                             revise (have the writer fix them first) or off
+      --export <formats>     Also write the report as comma-separated formats:
+                             ${exportFormats.join(", ")}
+      --export-dir <dir>     Folder for the exported files (default: current folder)
+      --json                 Print the whole final research state as JSON
+      --quiet                Print only the final report: no progress, only errors are logged
+      --log-level <level>    Progress log level: ${logLevels.join(", ")}
+                             (default: $LOG_LEVEL or info; debug also logs every progress event)
+      --log-format <format>  Progress log format: text or json, one object per line
+                             (default: $LOG_FORMAT or text)
+  -h, --help                 Show this help
+
+Exit codes:
+  0  research completed and a report was generated
+  1  research failed or no report was generated
+  2  invalid command-line usage
+  3  paused for review with no terminal to ask on: the pending request is printed,
+     continue with --resume <id> --answer <file>`;
+
+const reviewPoints = ["plan", "sources"] as const;
+
+// Parse a strictly positive integer flag value
+function parsePositiveInt(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new CliUsageError(`--${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Drop the fields of flags that were not given
+function definedFields<T extends object>(fields: T): T {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as T;
+}
+
+// Parse a strictly positive number flag value
+function parsePositiveNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new CliUsageError(`--${name} must be a positive number, got "${value}"`);
+  }
+  return parsed;
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        preset: { type: "string", short: "p" },
+        config: { type: "string" },
+        "max-iterations": { type: "string", short: "i" },
+        "max-queries": { type: "string", short: "q" },
+        "max-sub-questions": { type: "string" },
+        "max-results": { type: "string", short: "r" },
+        "search-depth": { type: "string" },
+        "max-sources": { type: "string" },
+        "max-report-tokens": { type: "string" },
+        "report-mode": { type: "string" },
+        concurrency: { type: "string", short: "c" },
+        "max-tokens": { type: "string" },
+        "max-cost": { type: "string" },
+        "max-searches": { type: "string" },
+        "max-time": { type: "string" },
+        "include-domains": { type: "string" },
+        "exclude-domains": { type: "string" },
+        "trusted-domains": { type: "string" },
+        "untrusted-domains": { type: "string" },
+        "max-age": { type: "string" },
+        "max-per-domain": { type: "string" },
+        "search-topic": { type: "string" },
+        output: { type: "string", short: "o" },
+        llm: { type: "string" },
+        model: { type: "string", multiple: true },
+        search: { type: "string" },
+        corpus: { type: "string" },
+        "searxng-url": { type: "string" },
+        record: { type: "string" },
+        replay: { type: "string" },
+        "no-cache": { type: "boolean", default: false },
+        "clear-cache": { type: "boolean", default: false },
+        "cache-dir": { type: "string" },
+        thread: { type: "string" },
+        resume: { type: "string" },
+        from: { type: "string" },
+        checkpoints: { type: "string" },
+        "checkpoint-dir": { type: "string" },
+        "report-prompt": { type: "string" },
+        "rewrite-section": { type: "string" },
+        review: { type: "string" },
+        answer: { type: "string" },
+        citations: { type: "string" },
+        language: { type: "string" },
+        "query-languages": { type: "string" },
+        export: { type: "string" },
+        "export-dir": { type: "string" },
+        json: { type: "boolean", default: false },
+        quiet: { type: "boolean", default: false },
+        "log-level": { type: "string" },
+        "log-format": { type: "string" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (error) {
+    throw new CliUsageError((error as Error).message);
+  }
+
+  const { values, positionals } = parsed;
+  const topic = positionals.join(" ").trim();
+
+  if (values.record !== undefined && values.replay !== undefined) {
+    throw new CliUsageError("--record and --replay cannot be used together");
+  }
+  if (values.from !== undefined && values.resume === undefined) {
+    throw new CliUsageError("--from needs --resume <id>");
+  }
+  if (values.answer !== undefined && values.resume === undefined) {
+    throw new CliUsageError("--answer needs --resume <id>");
+  }
+  if (values["rewrite-section"] !== undefined && values.resume === undefined) {
+    throw new CliUsageError("--rewrite-section needs --resume <id>");
+  }
+  if (values.resume !== undefined && (topic.length > 0 || values.thread !== undefined)) {
+    throw new CliUsageError("--resume continues an existing run: do not give a topic or --thread");
+  }
+
+  const llmProvider = values.llm as LLMProviderName | undefined;
+  if (llmProvider !== undefined && !llmProviderNames.includes(llmProvider)) {
+    throw new CliUsageError(`--llm must be one of: ${llmProviderNames.join(", ")}`);
+  }
+
+  const roleModels: Partial<RoleModels> = {};
+  for (const assignment of values.model ?? []) {
+    const [role, model] = assignment.split("=", 2);
+    if (!isModelRole(role) || !model) {
+      throw new CliUsageError(`--model expects <role>=<name> with a role among: ${modelRoles.join(", ")}`);
+    }
+    roleModels[role] = model;
+  }
+
+  let searchProviders: SearchProviderName[] | undefined;
+  if (values.search !== undefined) {
+    try {
+      searchProviders = parseSearchProviderNames(values.search);
+    } catch (error) {
+      throw new CliUsageError(`--search: ${(error as Error).message}`);
+    }
+  }
+
+  const citations = values.citations as CitationMode | undefined;
+  if (citations !== undefined && !citationModes.includes(citations)) {
+    throw new CliUsageError(`--citations must be one of: ${citationModes.join(", ")}`);
+  }
+
+  const logLevel = values["log-level"] as LogLevel | undefined;
+  if (logLevel !== undefined && !logLevels.includes(logLevel)) {
+    throw new CliUsageError(`--log-level must be one of: ${logLevels.join(", ")}`);
+  }
+  const logFormat = values["log-format"] as LogFormat | undefined;
+  if (logFormat !== undefined && !logFormats.includes(logFormat)) {
+    throw new CliUsageError(`--log-format must be one of: ${logFormats.join(", ")}`);
+  }
+  if (values.quiet && logLevel !== undefined) {
+    throw new CliUsageError("--quiet and --log-level cannot be used together");
+  }
+
+  let formats: ExportFormat[] = [];
+  if (values.export !== undefined) {
+    try {
+      formats = parseExportFormats(values.export);
+    } catch (error) {
+      throw new CliUsageError(`--export: ${(error as Error).message}`);
+    }
+  }
+
+  const review: ReviewOptions = {};
+  for (const point of values.review?.split(",").map(point => point.trim()) ?? []) {
+    if (!(reviewPoints as readonly string[]).includes(point)) {
+      throw new CliUsageError(`--review expects a comma-separated list of: ${reviewPoints.join(", ")}`);
+    }
+    review[point as typeof reviewPoints[number]] = true;
+  }
+
+  const preset = values.preset as ResearchPreset | undefined;
+  if (preset !== undefined && !researchPresets.includes(preset)) {
+    throw new CliUsageError(`--preset must be one of: ${researchPresets.join(", ")}`);
+  }
+
+  const searchDepth = values["search-depth"] as SearchDepth | undefined;
+  if (searchDepth !== undefined && searchDepth !== "basic" && searchDepth !== "advanced") {
+    throw new CliUsageError("--search-depth must be basic or advanced");
+  }
+
+  const reportMode = values["report-mode"] as "sections" | "single" | undefined;
+  if (reportMode !== undefined && reportMode !== "sections" && reportMode !== "single") {
+    throw new CliUsageError("--report-mode must be sections or single");
+  }
+
+  const searchTopic = values["search-topic"] as SourcePolicy["searchTopic"];
+  if (searchTopic !== undefined && !["general", "news", "finance"].includes(searchTopic)) {
+    throw new CliUsageError("--search-topic must be general, news or finance");
+  }
+
+  const rewriteSections = values["rewrite-section"]?.split(",")
+    .map(section => parsePositiveInt("rewrite-section", section.trim())!);
+
+  const maxTime = parsePositiveNumber("max-time", values["max-time"]);
+  const budget: Budget = definedFields({
+    maxTokens: parsePositiveInt("max-tokens", values["max-tokens"]),
+    maxCost: parsePositiveNumber("max-cost", values["max-cost"]),
+    maxSearchCalls: parsePositiveInt("max-searches", values["max-searches"]),
+    maxWallTimeMs: maxTime !== undefined ? maxTime * 1000 : undefined,
+  });
+
+  const domains = (list?: string) => list?.split(",").map(domain => domain.trim()).filter(domain => domain);
+  const sourcePolicy: SourcePolicy = definedFields({
+    includeDomains: domains(values["include-domains"]),
+    excludeDomains: domains(values["exclude-domains"]),
+    trustedDomains: domains(values["trusted-domains"]),
+    untrustedDomains: domains(values["untrusted-domains"]),
+    maxAgeDays: parsePositiveInt("max-age", values["max-age"]),
+    maxPerDomain: parsePositiveInt("max-per-domain", values["max-per-domain"]),
+    searchTopic,
+  });
+
+  // Only the settings given on the command line, so that they override a config file
+  const config: ResearchConfigInput = definedFields({
+    preset,
+    maxIterations: parsePositiveInt("max-iterations", values["max-iterations"]),
+    maxQueries: parsePositiveInt("max-queries", values["max-queries"]),
+    maxSubQuestions: parsePositiveInt("max-sub-questions", values["max-sub-questions"]),
+    maxResults: parsePositiveInt("max-results", values["max-results"]),
+    searchDepth,
+    maxSources: parsePositiveInt("max-sources", values["max-sources"]),
+    reportMode,
+    maxReportTokens: parsePositiveInt("max-report-tokens", values["max-report-tokens"]),
+    concurrency: parsePositiveInt("concurrency", values.concurrency),
+    citations,
+    language: values.language,
+    queryLanguages: values["query-languages"]?.split(",").map(language => language.trim()).filter(language => language),
+    models: Object.keys(roleModels).length > 0 ? roleModels : undefined,
+    budget: Object.keys(budget).length > 0 ? budget : undefined,
+    sourcePolicy: Object.keys(sourcePolicy).length > 0 ? sourcePolicy : undefined,
+  });
+
+  return {
+    topic: topic.length > 0 ? topic : undefined,
+    config,
+    configFile: values.config,
+    output: values.output,
+    llmProvider,
+    searchProviders,
+    corpusDir: values.corpus,
+    searxngUrl: values["searxng-url"],
+    record: values.record,
+    replay: values.replay,
+    noCache: values["no-cache"] ?? false,
+    clearCache: values["clear-cache"] ?? false,
+    cacheDir: values["cache-dir"],
+    thread: values.thread,
+    resume: values.resume,
+    from: values.from,
+    listCheckpoints: values.checkpoints,
+    checkpointDir: values["checkpoint-dir"],
+    reportPrompt: values["report-prompt"],
+    rewriteSections,
+    review,
+    answer: values.answer,
+    exportFormats: formats,
+    exportDir: values["export-dir"],
+    json: values.json ?? false,
+    quiet: values.quiet ?? false,
+    logLevel,
+    logFormat,
+    help: values.help ?? false,
+  };
+}
+
+// Read the whole of stdin (used when the topic is piped in)
+export async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) return "";
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8").trim();
+}
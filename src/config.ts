@@ -0,0 +1,121 @@
+import { RunnableConfig } from "@langchain/core/runnables";
+import { ResearchConfig, ResearchConfigInput, ResearchPreset, researchConfigSchema } from "./models/config";
+
+const defaultTemperatures: ResearchConfig["temperatures"] = {
+  planner: 0.7, // Creative query generation
+  summarizer: 0.1, // Factual summarization
+  evaluator: 0.2, // Consistent evaluation
+  filter: 0.1, // Consistent filtering
+  verifier: 0.1,
+  writer: 0.6,
+  revision: 0.3,
+};
+
+const standard: ResearchConfig = {
+  preset: "standard",
+  maxIterations: 3,
+  maxQueries: 5,
+  maxSubQuestions: 3,
+  maxResults: 5,
+  searchDepth: "basic",
+  maxSources: 10,
+  scoreBatchSize: 10,
+  duplicateQueryThreshold: 0.8,
+  duplicateContentThreshold: 0.8,
+  minNewSourceRatio: 0.1,
+  chunkTokens: 2000,
+  maxChunks: 4,
+  contextTokens: 24000,
+  reportMode: "sections",
+  maxReportTokens: 8192,
+  concurrency: 4,
+  citations: "flag",
+  language: "auto",
+  queryLanguages: [],
+  temperatures: defaultTemperatures,
+  models: {},
+  budget: {},
+  // Government, intergovernmental and academic sites rank above the others
+  sourcePolicy: {
+    trustedDomains: ["gov", "edu", "int", "mil", "gov.uk", "ac.uk", "gov.br", "edu.br", "gouv.fr", "gob.es", "europa.eu"],
+  },
+};
+
+// Starting points of a run's configuration
+export const researchPresetConfigs: Record<ResearchPreset, ResearchConfig> = {
+  // One pass over a few sources, for a fast overview
+  quick: {
+    ...standard,
+    preset: "quick",
+    maxIterations: 1,
+    maxQueries: 3,
+    maxSubQuestions: 1,
+    maxResults: 3,
+    maxSources: 5,
+    maxChunks: 2,
+    contextTokens: 12000,
+    reportMode: "single",
+    maxReportTokens: 4096,
+  },
+  standard,
+  // More queries, deeper searches and more sources in the report
+  exhaustive: {
+    ...standard,
+    preset: "exhaustive",
+    maxIterations: 5,
+    maxQueries: 8,
+    maxSubQuestions: 5,
+    maxResults: 8,
+    searchDepth: "advanced",
+    maxSources: 20,
+    maxChunks: 8,
+    contextTokens: 48000,
+    maxReportTokens: 16384,
+  },
+};
+
+// Error raised for an invalid research configuration, listing every problem
+export class ResearchConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResearchConfigError";
+  }
+}
+
+// Validate settings and fill in the missing ones from their preset.
+// Later layers override earlier ones, e.g. a config file then command-line flags.
+export function resolveResearchConfig(...layers: unknown[]): ResearchConfig {
+  const inputs = layers.map(parseResearchConfig);
+  const preset = inputs.reduce<ResearchPreset>((current, input) => input.preset ?? current, "standard");
+
+  return inputs.reduce<ResearchConfig>((resolved, input) => ({
+    ...resolved,
+    ...withoutUndefined(input),
+    temperatures: { ...resolved.temperatures, ...withoutUndefined(input.temperatures) },
+    models: { ...resolved.models, ...withoutUndefined(input.models) },
+    budget: { ...resolved.budget, ...withoutUndefined(input.budget) },
+    sourcePolicy: { ...resolved.sourcePolicy, ...withoutUndefined(input.sourcePolicy) },
+  }), researchPresetConfigs[preset]);
+}
+
+function parseResearchConfig(input: unknown = {}): ResearchConfigInput {
+  const result = researchConfigSchema.safeParse(input);
+  if (result.success) return result.data;
+  const problems = result.error.issues.map(issue => `${issue.path.join(".") || "config"}: ${issue.message}`);
+  throw new ResearchConfigError(`Invalid research configuration: ${problems.join("; ")}`);
+}
+
+function withoutUndefined<T extends object>(value?: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value ?? {}).filter(([, field]) => field !== undefined)) as Partial<T>;
+}
+
+const configKeys = Object.keys(researchConfigSchema.shape) as Array<keyof ResearchConfigInput>;
+
+// The run's configuration, from the ResearchConfig fields of config.configurable
+// (other fields, such as providers and thread_id, are ignored)
+export function getResearchConfig(config?: RunnableConfig): ResearchConfig {
+  const configurable = config?.configurable || {};
+  return resolveResearchConfig(Object.fromEntries(
+    configKeys.filter(key => configurable[key] !== undefined).map(key => [key, configurable[key]])
+  ));
+}
@@ -0,0 +1,60 @@
+import { Report } from '../models/report';
+import { SearchResult } from '../models/search';
+import { citedSources } from '../utils/citations';
+
+function hostOf(link: string): string {
+  try {
+    return new URL(link).hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+}
+
+// Citation key built from the source's host and its reference number, e.g. examplecom3
+export function citationKey(source: SearchResult, number: number): string {
+  const host = source.link.startsWith("file:") ? "local" : hostOf(source.link).replace(/[^a-z0-9]/gi, "");
+  return `${host || "ref"}${number}`;
+}
+
+// Escape the characters LaTeX treats specially
+function latex(text: string): string {
+  return text
+    .replace(/\\/g, "\\textbackslash{}")
+    .replace(/([{}%&$#_])/g, "\\$1")
+    .replace(/\^/g, "\\textasciicircum{}")
+    .replace(/~/g, "\\textasciitilde{}");
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// BibTeX entries for the cited sources
+export function renderBibtex(report: Report, accessed: Date = new Date()): string {
+  return citedSources(report).map(({ number, source }) => {
+    const url = source.link.replace(/%/g, "\\%");
+    return [
+      `@misc{${citationKey(source, number)},`,
+      `  title = {{${latex(source.title || source.link)}}},`,
+      `  howpublished = {\\url{${url}}},`,
+      `  url = {${url}},`,
+      `  urldate = {${isoDate(accessed)}},`,
+      `  note = {Accessed: ${isoDate(accessed)}}`,
+      `}`,
+    ].join("\n");
+  }).join("\n\n") + "\n";
+}
+
+// CSL-JSON items for the cited sources, readable by Zotero, Pandoc and most reference managers
+export function renderCslJson(report: Report, accessed: Date = new Date()): string {
+  const items = citedSources(report).map(({ number, source }) => ({
+    id: citationKey(source, number),
+    type: source.link.startsWith("file:") ? "document" : "webpage",
+    title: source.title || source.link,
+    URL: source.link,
+    ...(hostOf(source.link) ? { "container-title": hostOf(source.link) } : {}),
+    ...(source.language ? { language: source.language } : {}), // Of the source, not of the report
+    accessed: { "date-parts": [[accessed.getUTCFullYear(), accessed.getUTCMonth() + 1, accessed.getUTCDate()]] },
+  }));
+  return JSON.stringify(items, null, 2) + "\n";
+}
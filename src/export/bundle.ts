@@ -0,0 +1,57 @@
+import type { ResearchState } from '../graph';
+
+// Everything a run produced, for archiving or further processing:
+// queries per iteration, the sub-questions answered or left open, every source with its summary,
+// the report, the fallbacks taken,
+// and the settings and usage of the run
+export function renderBundle(state: ResearchState, generatedAt: Date = new Date()): string {
+  const results = state.results || [];
+  const reportSources = state.report?.sources || [];
+
+  const iterations = new Map<number, string[]>();
+  for (const { query, iteration } of results) {
+    iterations.set(iteration, [...(iterations.get(iteration) || []), query]);
+  }
+
+  // One entry per source: a source found by several queries is listed under each, as one record
+  const sources = new Map<string, Record<string, unknown>>();
+  for (const { query, searchResults } of results) {
+    for (const source of searchResults.results) {
+      if (sources.has(source.link)) continue;
+      const index = reportSources.findIndex(reportSource => reportSource.link === source.link);
+      sources.set(source.link, {
+        reference: index >= 0 ? index + 1 : null, // [Ref. n] number in the report
+        title: source.title,
+        link: source.link,
+        origin: source.origin,
+        language: source.language,
+        summary: source.filteredContent || null,
+        score: source.score ?? null, // Relevance, reliability and recency given by the filter
+        queries: source.queries ?? [query], // Every query that found it
+        duplicates: source.duplicates ?? [], // Links of copies of the same page
+        policy: source.policy, // Trust tier and source policy rules matched
+      });
+    }
+  }
+
+  return JSON.stringify({
+    topic: state.topic,
+    generatedAt: generatedAt.toISOString(),
+    config: state.config,
+    iterations: Array.from(iterations, ([iteration, queries]) => ({ iteration, queries })),
+    subQuestions: (state.subQuestions || []).map(({ question, status, reason, sources }) =>
+      ({ question, status, reason: reason ?? null, sources: sources ?? 0 })),
+    sources: Array.from(sources.values()),
+    rejectedSources: state.rejectedSources || [], // Results the source policy dropped, with the rule of each
+    report: state.report
+      ? {
+          title: state.report.title,
+          language: state.report.language,
+          content: state.report.content,
+          citations: (state.report.citations || []).map(({ source, ...citation }) => ({ ...citation, link: source?.link })),
+        }
+      : null,
+    fallbacks: state.fallbacks || [],
+    usage: state.usage?.totals,
+  }, null, 2) + "\n";
+}
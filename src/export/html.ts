@@ -0,0 +1,91 @@
+import { Marked } from 'marked';
+import { Report } from '../models/report';
+import { citationGroup, citationMarkers, citedSources, reportBody } from '../utils/citations';
+import { languageCode, reportHeadings } from '../utils/language';
+
+const style = `
+  body { font-family: Georgia, serif; line-height: 1.6; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; color: #222; }
+  h1, h2, h3 { font-family: system-ui, sans-serif; line-height: 1.25; }
+  a { color: #1a5fb4; }
+  .references li { margin-bottom: 0.5rem; word-break: break-word; }
+  .references li:target { background: #fff3bf; }
+  .url { color: #666; font-size: 0.9em; }`;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Whether a link may become an href: web and mail addresses and anchors only, so that links in the
+// model's text (which may come from a prompt injection) cannot run scripts
+export function isSafeUrl(url: string): boolean {
+  const value = url.trim();
+  if (value.startsWith("#")) return true;
+  try {
+    return ["http:", "https:", "mailto:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Markdown renderer whose links and images with other URLs are written as their plain text
+const markdown = new Marked({
+  renderer: {
+    link({ href, tokens }) {
+      return isSafeUrl(href) ? false : this.parser.parseInline(tokens);
+    },
+    image({ href, text }) {
+      return isSafeUrl(href) ? false : escapeHtml(text);
+    },
+  },
+});
+
+// Self-contained HTML page of the report: each [Ref. n] links to its entry in the references,
+// which links to the source
+export function renderHtml(report: Report): string {
+  const sources = citedSources(report);
+  const numbers = new Set(sources.map(({ number }) => number));
+  const lang = report.language && languageCode(report.language);
+
+  // Raw HTML in the model's text is shown as text, except for autolinks
+  const body = reportBody(report.content)
+    .replace(/<(?!https?:\/\/)/g, "&lt;")
+    .replace(citationGroup, group => {
+      const links = citationMarkers(group)
+        .map(number => numbers.has(number) ? `<a href="#ref-${number}">${number}</a>` : String(number));
+      return `[Ref. ${links.join(", ")}]`;
+    });
+
+  const references = sources.map(({ number, source }) => {
+    const link = escapeHtml(source.link);
+    const title = escapeHtml(source.title || source.link);
+    return `<li id="ref-${number}">[Ref. ${number}] ${isSafeUrl(source.link) ? `<a href="${link}">${title}</a>` : title}`
+      + ` <span class="url">${link}</span></li>`;
+  });
+
+  return `<!DOCTYPE html>
+<html${lang ? ` lang="${lang}"` : ""}>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>${style}
+</style>
+</head>
+<body>
+<article>
+${markdown.parse(body, { async: false })}
+${references.length > 0 ? `<section id="references">
+<h2>${escapeHtml(reportHeadings(report.language).references)}</h2>
+<ul class="references">
+${references.join("\n")}
+</ul>
+</section>
+` : ""}</article>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ResearchState } from '../graph';
+import { renderMarkdown } from './markdown';
+import { renderHtml } from './html';
+import { renderBundle } from './bundle';
+import { renderBibtex, renderCslJson } from './bibliography';
+
+export { renderMarkdown } from './markdown';
+export { renderHtml } from './html';
+export { renderBundle } from './bundle';
+export { renderBibtex, renderCslJson, citationKey } from './bibliography';
+
+export type ExportFormat = "markdown" | "html" | "json" | "bibtex" | "csl";
+
+export const exportFormats: ExportFormat[] = ["markdown", "html", "json", "bibtex", "csl"];
+
+export const exportExtensions: Record<ExportFormat, string> = {
+  markdown: ".md",
+  html: ".html",
+  json: ".json",
+  bibtex: ".bib",
+  csl: ".csl.json",
+};
+
+export function parseExportFormats(value: string): ExportFormat[] {
+  const formats = value.split(",").map(format => format.trim()).filter(format => format.length > 0);
+  for (const format of formats) {
+    if (!(exportFormats as string[]).includes(format)) {
+      throw new Error(`Unknown export format "${format}". Expected: ${exportFormats.join(", ")}`);
+    }
+  }
+  return formats as ExportFormat[];
+}
+
+// File name from the report title, e.g. "EV Buying Guide: 2025" -> "ev-buying-guide-2025"
+export function exportName(title: string): string {
+  const name = title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // Drop accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return name || "report";
+}
+
+export interface ExportOptions {
+  directory: string;
+  name?: string; // Base file name (default: from the report title)
+  date?: Date; // Generation and access date (default: now)
+}
+
+// Write the research state in the given formats; returns the paths written
+export async function exportReport(
+  state: ResearchState,
+  formats: ExportFormat[],
+  options: ExportOptions
+): Promise<string[]> {
+  const report = state.report;
+  if (!report) throw new Error("No report to export");
+
+  const date = options.date ?? new Date();
+  const render: Record<ExportFormat, () => string> = {
+    markdown: () => renderMarkdown(report),
+    html: () => renderHtml(report),
+    json: () => renderBundle(state, date),
+    bibtex: () => renderBibtex(report, date),
+    csl: () => renderCslJson(report, date),
+  };
+
+  await fs.mkdir(options.directory, { recursive: true });
+  const name = options.name ?? exportName(report.title);
+  const paths: string[] = [];
+  for (const format of formats) {
+    const filePath = path.join(options.directory, `${name}${exportExtensions[format]}`);
+    await fs.writeFile(filePath, render[format](), "utf8");
+    paths.push(filePath);
+  }
+  return paths;
+}
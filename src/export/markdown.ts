@@ -0,0 +1,20 @@
+import { Report } from '../models/report';
+import { citedSources, reportBody } from '../utils/citations';
+import { reportHeadings } from '../utils/language';
+
+// Markdown link text with its brackets escaped
+function linkText(text: string): string {
+  return text.replace(/([\[\]])/g, "\\$1");
+}
+
+// The report with its references section rebuilt from the cited sources,
+// numbered like the [Ref. n] markers of the text
+export function renderMarkdown(report: Report): string {
+  const references = citedSources(report)
+    .map(({ number, source }) => `- [Ref. ${number}] [${linkText(source.title || source.link)}](${source.link})`);
+
+  const body = reportBody(report.content);
+  return references.length > 0
+    ? `${body}\n\n## ${reportHeadings(report.language).references}\n\n${references.join("\n")}\n`
+    : `${body}\n`;
+}
@@ -1,49 +1,89 @@
-import { StateGraph, Annotation, END } from "@langchain/langgraph";
+import { StateGraph, Annotation, END, BaseCheckpointSaver, Command, Send, interrupt } from "@langchain/langgraph";
 import { RunnableConfig, RunnableSequence } from "@langchain/core/runnables";
 import * as planNode from "./nodes/plan";
 import * as runSearch from "./nodes/search";
 import * as evaluateNode from "./nodes/evaluate";
 import * as writeNode from "./nodes/write";
-import { SearchResults, SearchResult } from "./models/search";
+import * as reviewNode from "./nodes/review";
+import * as verifyNode from "./nodes/verify";
+import { SearchResults, SearchResult, QueryRecord, QueryResults } from "./models/search";
+import { PlannedQuestion, SubQuestion } from "./models/plan";
+import { Report } from "./models/report";
+import { ResearchLanguages } from "./models/language";
+import { RejectedSource } from "./models/policy";
+import { Fallback, FallbackRecord } from "./models/fallback";
+import { RunUsage } from "./models/usage";
+import { ResearchConfig } from "./models/config";
+import { getResearchConfig } from "./config";
+import { ReviewOptions, PlanReview, PlanReviewRequest, SourceReview, SourceReviewRequest } from "./models/review";
+import { getLLMProvider, MeteredLLMProvider, ModelOverrideProvider, ModelPrice, defaultModelPrices, modelRoles } from "./providers/llm";
+import { getSearchProvider, CachedSearchProvider } from "./providers/search";
+import { FileCache } from "./utils/cache";
+import { mapWithConcurrency, withSharedLimiter } from "./utils/concurrency";
+import { emit, withEvents } from "./utils/events";
+import { logger } from "./utils/logger";
+import { addUsage, budgetExhausted, mergeUsage, remainingSearchCalls, splitBudget, startUsage } from "./utils/usage";
+import { suppressDuplicateQueries } from "./utils/queries";
+import { SourceIndex, sourceId } from "./utils/dedup";
+import { languageName, resolveLanguages } from "./utils/language";
+import { applySourcePolicy, searchFilters } from "./utils/policy";
 
 // Define the state type with more specific types
-interface ResearchState {
+export interface ResearchState {
   topic?: string;
+  languages?: ResearchLanguages; // Of the topic, the report and the queries
   queries?: string[];
-  results?: Array<{
-    query: string;
-    searchResults: SearchResults;
-  }>;
+  plan?: PlannedQuestion[]; // Sub-questions of the topic, with the queries that start their research
+  subQuestions?: SubQuestion[]; // The branch of each sub-question, then whether it was answered or left open
+  results?: QueryResults[];
   isComplete?: boolean;
   filteredResults?: Array<{
     query: string;
     searchResults: SearchResult[];
   }>;
-  report?: {
-    title: string;
-    content: string;
-  };
+  report?: Report;
   iterationCount?: number;
+  pinnedUrls?: string[];
+  excludedUrls?: string[];
+  writerNotes?: string;
+  fallbacks?: FallbackRecord[]; // Steps that could not use the model's answer
+  usage?: RunUsage; // Tokens, estimated cost, searches and time used so far
+  config?: ResearchConfig; // Settings the run started with, to reproduce it
+  queryHistory?: QueryRecord[]; // Every query searched so far
+  rejectedSources?: RejectedSource[]; // Search results the source policy dropped, with the rule that dropped each
+}
+
+// Replace the sub-questions of an update by ID and keep the others, in the order of the plan
+function mergeSubQuestions(current: SubQuestion[], update: SubQuestion[]): SubQuestion[] {
+  const byId = new Map(current.map(subQuestion => [subQuestion.id, subQuestion]));
+  for (const subQuestion of update) byId.set(subQuestion.id, subQuestion);
+  return Array.from(byId.values()).sort((a, b) => a.id - b.id);
 }
 
 // Create state definition using Annotation
 let stateDefinition = Annotation.Root({
   topic: Annotation<string>(),
+  languages: Annotation<ResearchLanguages>(),
   queries: Annotation<string[]>(),
-  results: Annotation<Array<{
-    query: string;
-    searchResults: SearchResults;
-  }>>(),
+  plan: Annotation<PlannedQuestion[]>(),
+  // The branches of the sub-questions run side by side, so their updates are merged
+  subQuestions: Annotation<SubQuestion[]>({ reducer: mergeSubQuestions, default: () => [] }),
+  results: Annotation<QueryResults[]>(),
   isComplete: Annotation<boolean>(),
   filteredResults: Annotation<Array<{
     query: string;
     searchResults: SearchResult[];
   }>>(),
-  report: Annotation<{
-    title: string;
-    content: string;
-  }>(),
+  report: Annotation<Report>(),
   iterationCount: Annotation<number>(),
+  pinnedUrls: Annotation<string[]>(),
+  excludedUrls: Annotation<string[]>(),
+  writerNotes: Annotation<string>(),
+  fallbacks: Annotation<FallbackRecord[]>(),
+  usage: Annotation<RunUsage>(),
+  config: Annotation<ResearchConfig>(),
+  queryHistory: Annotation<QueryRecord[]>(),
+  rejectedSources: Annotation<RejectedSource[]>(),
 });
 
 // Define input type for the node functions
@@ -52,124 +92,463 @@ interface NodeInput {
   config?: RunnableConfig;
 }
 
-const planingNode = async (state: typeof stateDefinition.State) => {
+// Input of Search and Evaluate, sent to them for one sub-question's branch
+interface BranchInput {
+  topic: string;
+  languages?: ResearchLanguages;
+  subQuestion: SubQuestion;
+}
+
+// Review points enabled for the run through config.configurable.review
+function getReviewOptions(config?: RunnableConfig): ReviewOptions {
+  return config?.configurable?.review || {};
+}
+
+// Persistent cache of search responses and summaries, if one is given as config.configurable.cache
+function getCache(config?: RunnableConfig): FileCache | undefined {
+  const cache = config?.configurable?.cache;
+  return cache instanceof FileCache ? cache : undefined;
+}
+
+// Provider of the run, with the models chosen in its configuration, that records the tokens
+// and estimated cost of the node's calls. config.configurable.prices adds or overrides model prices.
+function getMeteredLLMProvider(config?: RunnableConfig): MeteredLLMProvider {
+  const prices: Record<string, ModelPrice> = { ...defaultModelPrices, ...config?.configurable?.prices };
+  const { models } = getResearchConfig(config);
+  const llm = Object.keys(models).length > 0
+    ? new ModelOverrideProvider(getLLMProvider(config), models)
+    : getLLMProvider(config);
+  return new MeteredLLMProvider(llm, prices);
+}
+
+// Append the fallbacks taken by a node to those recorded in the state (or in a sub-question's branch)
+function recordFallbacks(
+  state: { iterationCount?: number; fallbacks?: FallbackRecord[] },
+  node: string,
+  fallbacks: Array<Fallback | undefined>
+): { fallbacks?: FallbackRecord[] } {
+  const iteration = state.iterationCount || 0;
+  const records = fallbacks
+    .filter((fallback): fallback is Fallback => fallback !== undefined)
+    .map(fallback => ({ node, iteration, ...fallback }));
+  return records.length > 0 ? { fallbacks: [...(state.fallbacks || []), ...records] } : {};
+}
+
+// Why the last search iteration ends the research, if its share of new sources is below minNewSourceRatio.
+// The first iteration always counts: everything it finds is new.
+function lowYield(state: { iterationCount?: number; queryHistory?: QueryRecord[] }, minNewSourceRatio: number): string | undefined {
+  const iteration = state.iterationCount || 0;
+  if (iteration <= 1 || minNewSourceRatio <= 0) return undefined;
+
+  const records = (state.queryHistory || []).filter(record => record.iteration === iteration);
+  const found = records.reduce((total, record) => total + record.sources, 0);
+  const fresh = records.reduce((total, record) => total + record.newSources, 0);
+  if (found > 0 && fresh / found >= minNewSourceRatio) return undefined;
+  return `iteration ${iteration} found ${fresh} new sources among ${found} results`;
+}
+
+// Fallback recorded when a budget ends the research early
+function budgetFallback(reason?: string): Fallback | undefined {
+  return reason ? { reason, action: "writing the report with the sources found so far" } : undefined;
+}
+
+// Report how many of the sources found the filter kept
+function emitFilterResult(
+  config: RunnableConfig | undefined,
+  iteration: number,
+  sources: SearchResults,
+  filtered: { results: SearchResults; fallback?: Fallback }
+): void {
+  emit(config, {
+    type: "filter_result",
+    iteration,
+    kept: filtered.results.results.length,
+    total: sources.results.length,
+    fallback: filtered.fallback,
+  });
+}
+
+// Keep the scores given by the filter with the sources of each query, for later evaluations
+function withScores(results: QueryResults[], scored: SearchResult[]): QueryResults[] {
+  const byId = new Map(scored.map(source => [source.id, source]));
+  return results.map(entry => ({
+    ...entry,
+    searchResults: new SearchResults(entry.searchResults.results.map(result =>
+      byId.get(result.id ?? sourceId(result.link)) ?? result)),
+  }));
+}
+
+const planingNode = async (state: typeof stateDefinition.State, config?: RunnableConfig) => {
   // Extract topic directly
   const topic = state.topic;
   if (!topic) throw new Error("No topic provided for planning");
   
   // Execute plan
-  const queries = await planNode.generateResearchPlan(topic);
+  const researchConfig = getResearchConfig(config);
+  const llm = getMeteredLLMProvider(config);
+  const usage = startUsage(); // The run's clock starts with its plan
+  const languages = resolveLanguages(topic, researchConfig.language, researchConfig.queryLanguages);
+  logger.info(`Report language: ${languageName(languages.report)}; `
+    + `queries in ${languages.queries.map(languageName).join(", ")}`);
+  const plan = await planNode.generateResearchPlan(
+    topic, researchConfig.maxQueries, llm, researchConfig.temperatures.planner, researchConfig.maxSubQuestions, languages);
+  emit(config, {
+    type: "plan_generated",
+    subQuestions: plan.subQuestions.map(subQuestion => subQuestion.question),
+    queries: plan.queries,
+    fallback: plan.fallback,
+  });
           
   return {
     topic, // Keep the original topic
-    queries, // Use the generated queries
-    iterationCount: 0 // Initialize iteration counter
+    languages,
+    plan: plan.subQuestions, // Each sub-question is researched in its own branch
+    queries: plan.queries, // Use the generated queries
+    iterationCount: 0, // Initialize iteration counter
+    usage: addUsage(usage, "Plan", 0, llm.calls),
+    // The models actually used for each role are recorded, including the provider's defaults
+    config: { ...researchConfig, models: Object.fromEntries(modelRoles.map(role => [role, llm.modelFor(role)])) },
+    ...recordFallbacks(state, "Plan", [plan.fallback])
   };
 };
 
-
-const searchingNode = async (state: typeof stateDefinition.State) => {
-  // Extract topic and queries
+// Start a branch for each sub-question of the plan, with its share of the budget left.
+// A plan without sub-questions researches the topic itself.
+function researchSubQuestions(state: typeof stateDefinition.State, config?: RunnableConfig): Send[] {
   const topic = state.topic;
-  const queries = state.queries || [];
+  const plan = state.plan?.length ? state.plan : [{ question: topic, queries: state.queries || [] }];
+  const budgets = splitBudget(getResearchConfig(config).budget, state.usage, plan.length);
+
+  return plan.map(({ question, queries }, i) => new Send("Search", {
+    topic,
+    languages: state.languages,
+    subQuestion: {
+      id: i + 1,
+      question,
+      status: "researching",
+      iterationCount: 0,
+      queries,
+      usage: state.usage,
+      budget: budgets[i],
+    },
+  } satisfies BranchInput));
+}
+
+
+const searchingNode = async ({ topic, languages, subQuestion }: BranchInput, config?: RunnableConfig) => {
+  // Extract the sub-question's queries
+  const requested = subQuestion.queries || [];
   
   if (!topic) throw new Error("No topic provided for search");
-  if (queries.length === 0) throw new Error("No queries to search for");
+  if (requested.length === 0) throw new Error("No queries to search for");
+
+  const researchConfig = getResearchConfig(config);
+  const {
+    maxResults, searchDepth, concurrency, temperatures, duplicateQueryThreshold, duplicateContentThreshold,
+    chunkTokens, maxChunks, sourcePolicy,
+  } = researchConfig;
+  const budget = subQuestion.budget ?? researchConfig.budget;
+  // Increment the iteration counter
+  const iterationCount = subQuestion.iterationCount + 1;
+  const history = subQuestion.queryHistory || [];
+
+  // Skip the queries that repeat, or nearly repeat, one already searched.
+  // An iteration left with no query finds no new sources, which ends the research.
+  const unique = suppressDuplicateQueries(requested, history.map(record => record.query), duplicateQueryThreshold);
+  for (const { query, duplicateOf } of unique.suppressed) {
+    logger.info(`Skipping query "${query}": it repeats "${duplicateOf}"`);
+    emit(config, { type: "query_suppressed", iteration: iterationCount, query, duplicateOf });
+  }
+
+  // Search only as many queries as the search budget allows
+  const remaining = remainingSearchCalls(subQuestion.usage, budget);
+  const queries = unique.queries.slice(0, remaining);
+  if (queries.length < unique.queries.length) {
+    logger.warn(`Search budget: only ${queries.length} of ${unique.queries.length} queries will be searched`);
+  }
   
-  // Incremental search results
-  const newResults = [];
+  const llm = getMeteredLLMProvider(config);
+  const cache = getCache(config);
+  const searchProvider = cache
+    ? new CachedSearchProvider(getSearchProvider(config), cache)
+    : getSearchProvider(config);
+  emit(config, { type: "queries_issued", iteration: iterationCount, queries });
   
-  // Execute searches
-  for (const query of queries) {
-    // Search for the query
-    const searchResults = await runSearch.search(query);
-    // Process the results to add summaries
-    const processedResults = await runSearch.processSearchResults(searchResults, query);
-    
-    // Store the results with their query
-    newResults.push({
-      query,
-      searchResults: processedResults
-    });
+  // One limiter bounds the searches and summaries of every branch of the run working at the same time
+  // (runs without a thread share theirs)
+  const limiterKey = `${config?.configurable?.thread_id ?? ""}:${concurrency}`;
+
+  // Execute searches concurrently; results keep the order of the queries.
+  // Providers apply what they can of the source policy, and every result is checked against it.
+  const filters = searchFilters(sourcePolicy);
+  const searches = await withSharedLimiter(limiterKey, concurrency, limiter =>
+    mapWithConcurrency(queries, limiter, async query => {
+      emit(config, { type: "query_started", iteration: iterationCount, query });
+      const results = await runSearch.search(query, maxResults, searchProvider, searchDepth, filters);
+      const { allowed, rejected } = applySourcePolicy(results.results, query, sourcePolicy);
+      return { query, found: allowed, rejected };
+    }));
+  const rejected = searches.flatMap(search => search.rejected);
+  if (rejected.length > 0) {
+    logger.info(`The source policy dropped ${rejected.length} results`);
+    emit(config, { type: "sources_rejected", iteration: iterationCount, sources: rejected });
   }
+
+  // Merge the results that repeat a source already found, in this iteration or an earlier one,
+  // before anything is summarized. Earlier records are copied, as merges add queries to them.
+  const index = new SourceIndex(duplicateContentThreshold);
+  const previous = (subQuestion.results || []).map(entry => ({
+    ...entry,
+    searchResults: new SearchResults(entry.searchResults.results.map(result =>
+      index.add(result, entry.query).record)),
+  }));
+  const fresh = searches.map(({ query, found }) => ({
+    query,
+    found,
+    sources: found.map(result => index.add(result, query)).filter(({ duplicate }) => !duplicate).map(({ record }) => record),
+  }));
+  const merged = fresh.reduce((total, { found, sources }) => total + found.length - sources.length, 0);
+  if (merged > 0) logger.info(`Merged ${merged} duplicate sources into sources already found`);
+
+  // Summarize the new sources only, through the same limiter
+  const newResults = await withSharedLimiter(limiterKey, concurrency, summaryLimiter =>
+    Promise.all(fresh.map(async ({ query, sources }) => {
+      const processedResults = await runSearch.processSearchResults(new SearchResults(sources), query, llm, {
+        concurrency: summaryLimiter,
+        cache,
+        temperature: temperatures.summarizer,
+        chunkTokens,
+        maxChunks,
+        language: languages?.report, // Summaries are written in the language of the report
+        onSummarized: ({ title, link }, cached) =>
+          emit(config, { type: "source_summarized", query, title, link, cached }),
+      });
+      emit(config, { type: "query_finished", iteration: iterationCount, query, sources: processedResults.results.length });
+    
+      // Store the results with their query
+      return {
+        query,
+        searchResults: processedResults,
+        iteration: iterationCount
+      };
+    })));
   
-  // Combine previous and new results, only if there were previous results
-  const combinedResults = state.results && state.results.length > 0
-    ? [...state.results, ...newResults]
-    : newResults;
+  emit(config, {
+    type: "sources_added",
+    iteration: iterationCount,
+    sources: newResults.flatMap(({ query, searchResults }) =>
+      searchResults.results.map(({ title, link }) => ({ query, title, link }))),
+  });
 
-  // Increment the iteration counter
-  const iterationCount = (state.iterationCount || 0) + 1;
-  console.log(`Search iteration: ${iterationCount}`);
+  // Combine previous and new results
+  const combinedResults = [...previous, ...newResults];
+
+  const records = fresh.map(({ query, found, sources }) =>
+    ({ query, iteration: iterationCount, sources: found.length, newSources: sources.length, subQuestion: subQuestion.id }));
+
+  logger.info(`Search iteration ${iterationCount} of sub-question ${subQuestion.id}: ${subQuestion.question}`);
   
-  return {
-    ...state,
+  const next: SubQuestion = {
+    ...subQuestion,
     results: combinedResults,
+    queryHistory: [...history, ...records],
+    ...(rejected.length > 0 ? { rejectedSources: [...(subQuestion.rejectedSources || []), ...rejected] } : {}),
     queries: [], // Clear the queries as they've been processed
-    iterationCount // Update the iteration counter
+    iterationCount, // Update the iteration counter
+    usage: addUsage(subQuestion.usage, "Search", iterationCount, llm.calls, queries.length)
   };
+  // The branch goes on to evaluate what it found
+  return new Command({
+    update: { subQuestions: [next] },
+    goto: new Send("Evaluate", { topic, languages, subQuestion: next } satisfies BranchInput),
+  });
 };
 
-const evaluatingNode = async (state: typeof stateDefinition.State) => {
-  // Extract topic and results directly from input
-  const topic = state.topic;
-  const results = state.results;
-  const iterationCount = state.iterationCount || 0;
+// Judge whether a sub-question is answered and select its best sources. An incomplete branch searches
+// again; a finished one is answered, or left open when the iterations, the budget or the new sources
+// ran out first, and goes on to Merge.
+const evaluatingNode = async ({ topic, languages, subQuestion }: BranchInput, config?: RunnableConfig) => {
+  // Each branch evaluates its own sub-question
+  const question = subQuestion.question;
+  const results = subQuestion.results || [];
+  const iterationCount = subQuestion.iterationCount;
 
   if (!topic) throw new Error("No topic provided for evaluation");
-  if (!results || results.length === 0) throw new Error("No results to evaluate");
 
   // Flatten all search results for evaluation
   const flattenedResults = new SearchResults(
     results.flatMap(r => r.searchResults.results)
   );
 
-  // Force completion after maximum iterations (e.g., 3)
-  const MAX_ITERATIONS = 3;
-  if (iterationCount >= MAX_ITERATIONS) {
-    console.log(`Reached maximum iterations (${MAX_ITERATIONS}). Forcing research completion.`);
-    
-    // Filter results to keep only the most relevant ones
-    const filteredRawResults = await evaluateNode.filterSearchResults(topic, flattenedResults);
-    
-    return {
-      isComplete: true,
-      filteredResults: [{
-        query: topic,
-        searchResults: filteredRawResults.results.length > 0 
-          ? filteredRawResults.results 
-          : [{ // Add a placeholder result if no results were found
-              title: "No relevant results found",
-              link: "",
-              content: "Please try different search queries."
-            }]
-      }],
-      iterationCount
-    };
+  const researchConfig = getResearchConfig(config);
+  const {
+    maxIterations, maxSources, scoreBatchSize, concurrency, contextTokens, temperatures, minNewSourceRatio, sourcePolicy,
+  } = researchConfig;
+  const budget = subQuestion.budget ?? researchConfig.budget;
+  const llm = getMeteredLLMProvider(config);
+
+  // A budget nearly used up leaves no room for a verdict: the branch stops with what it found
+  const exhausted = budgetExhausted(subQuestion.usage, budget);
+  if (exhausted) logger.info(`Stopping the research of sub-question ${subQuestion.id}: ${exhausted}.`);
+  const evaluation = exhausted ? undefined : await evaluateNode.evaluateCompleteness(
+    question, flattenedResults, llm, temperatures.evaluator, subQuestion.queryHistory, contextTokens, languages?.queries);
+  // Score the new sources and keep only the best ones
+  const filtered = await evaluateNode.filterSearchResults(
+    question, flattenedResults, llm, maxSources, temperatures.filter, scoreBatchSize, concurrency, sourcePolicy.maxPerDomain);
+  const usage = addUsage(subQuestion.usage, "Evaluate", iterationCount, llm.calls);
+
+  // Why an incomplete sub-question stops: a budget used up (before or by this evaluation), an iteration
+  // that found almost nothing new, a sign further searches would not either, or the last iteration
+  const exhaustedNow = exhausted ?? (evaluation?.isComplete ? undefined : budgetExhausted(usage, budget));
+  const stopped = evaluation?.isComplete ? undefined : exhaustedNow
+    ?? lowYield(subQuestion, minNewSourceRatio)
+    ?? (iterationCount >= maxIterations ? `reached the maximum of ${maxIterations} iterations` : undefined);
+  if (stopped && !exhausted) logger.info(`Stopping the research of sub-question ${subQuestion.id}: ${stopped}.`);
+  // A verdict that could not be reached leaves the question open as well
+  const answered = evaluation?.isComplete === true && !evaluation.fallback;
+  const isComplete = evaluation?.isComplete === true || stopped !== undefined;
+  // A failed evaluation gives no follow-up queries: the question itself is searched again
+  const queries = isComplete ? [] : evaluation?.queries.length ? evaluation.queries : [question];
+
+  emit(config, {
+    type: "evaluation_verdict",
+    subQuestion: subQuestion.id,
+    iteration: iterationCount,
+    isComplete,
+    queries,
+    forced: !evaluation?.isComplete && isComplete,
+    fallback: evaluation?.fallback,
+  });
+  emitFilterResult(config, iterationCount, flattenedResults, filtered);
+
+  const next: SubQuestion = {
+    ...subQuestion,
+    status: isComplete ? (answered ? "answered" : "open") : "researching",
+    ...(isComplete && !answered ? { reason: stopped ?? evaluation?.fallback?.reason } : {}),
+    queries,
+    results: withScores(results, filtered.scored),
+    filteredResults: filtered.results.results,
+    usage,
+    // An evaluation fallback that would search again does not apply to a branch that stops
+    ...recordFallbacks(subQuestion, "Evaluate", [
+      stopped ? undefined : evaluation?.fallback, budgetFallback(exhaustedNow), filtered.fallback,
+    ])
+  };
+  return new Command({
+    update: { subQuestions: [next] },
+    goto: isComplete ? "Merge" : new Send("Search", { topic, languages, subQuestion: next } satisfies BranchInput),
+  });
+};
+
+// Written from in place of sources when none were found, or the reviewer excluded them all
+const noResultsPlaceholder: SearchResult = {
+  title: "No relevant results found",
+  link: "",
+  content: "Please try different search queries."
+};
+
+// Join the branches once every sub-question is done: their sources, queries, usage and fallbacks
+// become the run's, and the report's sources are taken from the selection of each sub-question in turn
+const mergingNode = async (state: typeof stateDefinition.State, config?: RunnableConfig) => {
+  const topic = state.topic;
+  if (!topic) throw new Error("No topic provided for merging");
+
+  // Merge runs as each branch finishes; the last one merges them all (once)
+  const branches = state.subQuestions || [];
+  if (branches.some(branch => branch.status === "researching") || branches.every(branch => !branch.results)) {
+    return {};
   }
 
-  // Continue with normal evaluation if under max iterations
-  const evaluation = await evaluateNode.evaluateCompleteness(topic, flattenedResults);
-  const filteredRawResults = await evaluateNode.filterSearchResults(topic, flattenedResults);
+  const { maxSources, duplicateContentThreshold, sourcePolicy } = getResearchConfig(config);
+  // A source found by several branches becomes one, with the queries of each
+  const index = new SourceIndex(duplicateContentThreshold);
+  const records = new Map<string, SearchResult>();
+  const results = branches.flatMap(branch => branch.results || []).map(entry => ({
+    ...entry,
+    searchResults: new SearchResults(entry.searchResults.results.map(result => {
+      const { record } = index.add(result, entry.query);
+      records.set(result.id ?? sourceId(result.link), record);
+      return record;
+    })),
+  }));
+  const selections = branches.map(branch => (branch.filteredResults || [])
+    .map(source => records.get(source.id ?? sourceId(source.link)) ?? source));
+  const selected = evaluateNode.mergeSelections(selections, maxSources, sourcePolicy.maxPerDomain);
+  const selectedIds = new Set(selected.map(source => source.id));
+
+  const fallbacks = branches.flatMap(branch => branch.fallbacks || []);
+  const rejectedSources = branches.flatMap(branch => branch.rejectedSources || []);
+  const answered = branches.filter(branch => branch.status === "answered").map(branch => branch.question);
+  const open = branches.filter(branch => branch.status !== "answered").map(branch => branch.question);
+  logger.info(`Sub-questions: ${answered.length} answered, ${open.length} left open.`);
+  emit(config, { type: "sub_questions_merged", answered, open });
 
   return {
-    isComplete: evaluation.isComplete === true,
-    ...(evaluation.isComplete ? {} : { queries: evaluation.queries }),
+    isComplete: true,
+    results,
     filteredResults: [{
       query: topic,
-      searchResults: filteredRawResults.results.length > 0 
-        ? filteredRawResults.results 
-        : [{ // Add a placeholder result if no results were found
-            title: "No relevant results found",
-            link: "",
-            content: "Please try different search queries."
-          }]
+      searchResults: selected.length > 0 ? selected : [noResultsPlaceholder]
     }],
-    iterationCount
+    queryHistory: branches.flatMap(branch => branch.queryHistory || []),
+    iterationCount: Math.max(0, ...branches.map(branch => branch.iterationCount)),
+    usage: mergeUsage(state.usage, branches.flatMap(branch => branch.usage ? [branch.usage] : [])),
+    ...(fallbacks.length > 0 ? { fallbacks: [...(state.fallbacks || []), ...fallbacks] } : {}),
+    ...(rejectedSources.length > 0 ? { rejectedSources } : {}),
+    // Only the outcome of each sub-question is kept
+    subQuestions: branches.map(({ id, question, status, reason, iterationCount }, i) => ({
+      id,
+      question,
+      status,
+      ...(reason ? { reason } : {}),
+      iterationCount,
+      sources: selections[i].filter(source => selectedIds.has(source.id)).length,
+    })),
+  };
+};
+
+// Pause after Plan so a reviewer can edit, delete or add queries, or replace the sub-questions.
+// The run continues when resumed with a Command carrying a PlanReview.
+const reviewingPlanNode = async (state: typeof stateDefinition.State) => {
+  const topic = state.topic;
+  if (!topic) throw new Error("No topic provided for plan review");
+
+  const request: PlanReviewRequest = {
+    type: "plan",
+    topic,
+    queries: state.queries || [],
+    subQuestions: state.plan?.length ? state.plan : [{ question: topic, queries: state.queries || [] }],
   };
+  const review = interrupt<PlanReviewRequest, PlanReview>(request);
+
+  const plan = reviewNode.applySubQuestionReview(topic, request.subQuestions, review);
+  return { plan, queries: plan.flatMap(subQuestion => subQuestion.queries) };
 };
 
-const writingNode = async (state: typeof stateDefinition.State) => {
+// Pause before Write so a reviewer can pin or exclude sources and leave notes for the writer.
+// The run continues when resumed with a Command carrying a SourceReview.
+const reviewingSourcesNode = async (state: typeof stateDefinition.State) => {
+  const topic = state.topic;
+  if (!topic) throw new Error("No topic provided for source review");
+
+  const sources = (state.filteredResults || []).flatMap(r => r.searchResults).filter(source => source.link);
+  const candidates = new SearchResults((state.results || []).flatMap(r => r.searchResults.results)).dedup().results;
+
+  const request: SourceReviewRequest = { type: "sources", topic, sources, candidates };
+  const review = interrupt<SourceReviewRequest, SourceReview>(request);
+
+  // The review always applies: excluding every source leaves none to write from
+  const reviewed = reviewNode.applySourceReview(sources, candidates, review);
+  if (reviewed.length === 0) logger.warn("The source review excluded every source. Writing without sources.");
+  return {
+    filteredResults: [{ query: topic, searchResults: reviewed.length > 0 ? reviewed : [noResultsPlaceholder] }],
+    pinnedUrls: review?.pin || [],
+    excludedUrls: review?.exclude || [],
+    writerNotes: review?.notes,
+  };
+};
+
+const writingNode = async (state: typeof stateDefinition.State, config?: RunnableConfig) => {
   // Extract directly from input
   const topic = state.topic;
   const filteredResults = state.filteredResults;
@@ -183,10 +562,70 @@ const writingNode = async (state: typeof stateDefinition.State) => {
     filteredResults.flatMap(r => r.searchResults)
   );
   
-  // Generate final research report
-  const report = await writeNode.generateReport(topic, flattenedResults);
+  const { maxReportTokens, contextTokens, temperatures, reportMode } = getResearchConfig(config);
+  const llm = getMeteredLLMProvider(config);
+  const options = {
+    maxTokens: maxReportTokens,
+    contextTokens,
+    notes: state.writerNotes,
+    onToken: (text: string) => emit(config, { type: "report_token", text }),
+    temperature: temperatures.writer,
+    language: state.languages?.report,
+  };
+
+  // A finished run can rewrite some sections of its report through config.configurable.rewriteSections
+  const rewrite: number[] = config?.configurable?.rewriteSections || [];
+  if (rewrite.length > 0 && state.report) {
+    const report = await writeNode.regenerateSections(topic, state.report, rewrite, llm, options);
+    return { report, usage: addUsage(state.usage, "Write", state.iterationCount || 0, llm.calls) };
+  }
+
+  // A run (or a fork of one) may replace the report prompt through config.configurable.reportPrompt,
+  // which describes the whole report and is written in a single call
+  const reportPrompt: string | undefined = config?.configurable?.reportPrompt;
+  let report: Report;
+  let fallback: Fallback | undefined;
+  if (reportMode === "sections" && !reportPrompt) {
+    ({ report, fallback } = await writeNode.generateSectionedReport(topic, flattenedResults, llm, options));
+  } else {
+    report = await writeNode.generateReport(topic, flattenedResults, maxReportTokens, llm, reportPrompt,
+      options.notes, options.onToken, options.temperature, contextTokens, options.language);
+  }
   
-  return { report };
+  return {
+    report,
+    usage: addUsage(state.usage, "Write", state.iterationCount || 0, llm.calls),
+    ...recordFallbacks(state, "Write", [fallback]),
+  };
+};
+
+// Check that every [Ref. n] marker points to a source that backs its sentence.
+// Problems are revised by the writer (in revise mode) and the remaining ones flagged in the report.
+const verifyingNode = async (state: typeof stateDefinition.State, config?: RunnableConfig) => {
+  let report = state.report;
+  if (!report) throw new Error("No report to verify");
+
+  const llm = getMeteredLLMProvider(config);
+  const { concurrency, citations, maxReportTokens, contextTokens, temperatures } = getResearchConfig(config);
+  const verify = (report: Report) =>
+    verifyNode.verifyCitations(verifyNode.extractCitations(report), llm, concurrency, temperatures.verifier);
+  let verification = await verify(report);
+
+  const problems = verifyNode.problemCitations(verification.citations);
+  if (citations === "revise" && problems.length > 0) {
+    report = await verifyNode.reviseReport(report, problems, maxReportTokens, llm, temperatures.revision, contextTokens);
+    verification = await verify(report);
+  }
+
+  return {
+    report: {
+      ...report,
+      content: verifyNode.flagCitations(report.content, verification.citations),
+      citations: verification.citations,
+    },
+    usage: addUsage(state.usage, "Verify", state.iterationCount || 0, llm.calls),
+    ...recordFallbacks(state, "Verify", [verification.fallback])
+  };
 };
 
 // Define the research workflow graph
@@ -197,41 +636,71 @@ const writingNode = async (state: typeof stateDefinition.State) => {
 // Edges define the possible transitions between steps
 
 // Graph structure:
-// 1. Plan -> Search -> Evaluate -> [conditional branch]
-//    a. If research is complete -> Write -> END
-//    b. If research is incomplete -> Search (loop back for more data)
+// 1. Plan -> [ReviewPlan] -> one branch per sub-question, side by side (Send):
+//    Search -> Evaluate -> [conditional branch]
+//    a. If the sub-question is incomplete -> Search (loop back for more data)
+//    b. If it is answered, or left open -> Merge
+// 2. Once every branch is done: Merge -> [ReviewSources] -> Write -> [Verify] -> END
+// The review nodes only run when enabled in config.configurable.review (they need a checkpointer)
 
 // Node descriptions:
-// - Plan: Generates initial research queries based on the topic
-// - Search: Executes search queries and collects results
-// - Evaluate: Assesses if we have sufficient information and filters results
+// - Plan: Breaks the topic into sub-questions and generates their initial research queries
+// - Search: Executes a sub-question's search queries and collects results
+// - Evaluate: Assesses if a sub-question has sufficient information and filters its results
+// - Merge: Combines the sources of every sub-question, and records which were answered
+// - ReviewPlan: Pauses for a human to edit the queries
+// - ReviewSources: Pauses for a human to pin or exclude sources and add notes for the writer
 // - Write: Generates the final research report
+// - Verify: Checks the report's citations against their sources (skipped when citations is "off")
 const graph = new StateGraph(stateDefinition)
-  .addNode("Plan", planingNode)
-  .addNode("Search", searchingNode)
-  .addNode("Evaluate", evaluatingNode)
-  .addNode("Write", writingNode)
+  .addNode("Plan", withEvents("Plan", planingNode))
+  // Search and Evaluate run for one sub-question at a time, and route its branch themselves
+  .addNode("Search", withEvents("Search", searchingNode), { ends: ["Evaluate"] })
+  .addNode("Evaluate", withEvents("Evaluate", evaluatingNode), { ends: ["Search", "Merge"] })
+  .addNode("Merge", withEvents("Merge", mergingNode))
+  .addNode("Write", withEvents("Write", writingNode))
+  .addNode("ReviewPlan", withEvents("ReviewPlan", reviewingPlanNode))
+  .addNode("ReviewSources", withEvents("ReviewSources", reviewingSourcesNode))
+  .addNode("Verify", withEvents("Verify", verifyingNode))
   .setEntryPoint("Plan")
-  .addEdge("Plan", "Search")
   .addConditionalEdges(
-    "Evaluate",
-    (state) => {
-      // Verificação simplificada do estado
-      if (state && typeof state === 'object' && 'isComplete' in state) {
-        const isComplete = !!state.isComplete;
-        console.log(`Evaluation complete: ${isComplete ? 'Yes' : 'No'}`);
-        // Retorna o nome do nó de destino, não um booleano
-        return isComplete ? "Write" : "Search";
-      }
-      console.warn("Estado inválido ou sem propriedade isComplete:", state);
-      return "Search"; // Retorna o nome do nó, não false
+    "Plan",
+    (state, config) => getReviewOptions(config).plan ? "ReviewPlan" : researchSubQuestions(state, config),
+    {
+      "ReviewPlan": "ReviewPlan",
+      "Search": "Search"
+    }
+  )
+  .addConditionalEdges("ReviewPlan", researchSubQuestions, { "Search": "Search" })
+  .addConditionalEdges(
+    "Merge",
+    (state, config) => {
+      // Branches still researching merge when they finish
+      const researching = (state.subQuestions || []).filter(subQuestion => subQuestion.status === "researching");
+      if (researching.length > 0) return END;
+      return getReviewOptions(config).sources ? "ReviewSources" : "Write";
     },
     {
+      "ReviewSources": "ReviewSources",
       "Write": "Write",
-      "Search": "Search"
+      [END]: END
     }
   )
-  .addEdge("Search", "Evaluate")
-  .addEdge("Write", END);
+  .addEdge("ReviewSources", "Write")
+  .addConditionalEdges(
+    "Write",
+    (_state, config) => getResearchConfig(config).citations === "off" ? END : "Verify",
+    {
+      "Verify": "Verify",
+      [END]: END
+    }
+  )
+  .addEdge("Verify", END);
+
+// Compile the graph; with a checkpointer the state is saved after every node under
+// config.configurable.thread_id, so a run can be resumed or forked from any checkpoint
+export function createResearcher(checkpointer?: BaseCheckpointSaver) {
+  return graph.compile({ checkpointer });
+}
 
-export const researcher = graph.compile();
+export const researcher = createResearcher();
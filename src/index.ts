@@ -1,37 +1,267 @@
 import dotenv from "dotenv";
+import { promises as fs } from "fs";
+import { randomUUID } from "crypto";
 
 // Load environment variables
 dotenv.config();
 
-import { researcher } from "./graph";
+import { Command } from "@langchain/langgraph";
+import { createResearcher } from "./graph";
+import { FileCheckpointSaver, defaultCheckpointDirectory } from "./checkpoint";
+import { parseCliArgs, readStdin, usage, CliUsageError } from "./cli";
+import { createLLMProvider, llmSettingsFromEnv } from "./providers/llm";
+import { createSearchProvider, searchSettingsFromEnv } from "./providers/search";
+import { Cassette, CassetteLLMProvider, CassetteSearchProvider } from "./providers/cassette";
+import { FileCache, defaultCacheDirectory } from "./utils/cache";
+import { promptReview } from "./review";
+import { ReviewRequest } from "./models/review";
+import { ResearchEvent } from "./models/events";
+import { exportReport } from "./export";
+import { createLogger, logger, loggerOptionsFromEnv, setLogger } from "./utils/logger";
+import { formatUsage, groupUsage } from "./utils/usage";
+import { ResearchConfigError, resolveResearchConfig } from "./config";
+import { ResearchConfig } from "./models/config";
 
 
-async function main() {
+async function main(): Promise<number> {
+  let options;
   try {
-    // Define a research topic
-    //const researchTopic = "Quem foi eleito presidente do brasil em 2022?";
-    const researchTopic = "O que devo considerar ao comprar um carro elétrico no Brasil em 2025?";
-    
-    // Execute the research graph with the topic directly
-    const result = await researcher.invoke({
-      topic: researchTopic
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      console.error(`${error.message}\n\n${usage}`);
+      return 2;
+    }
+    throw error;
+  }
+
+  if (options.help) {
+    console.log(usage);
+    return 0;
+  }
+
+  // Progress goes to stderr through the logger; quiet runs only log errors
+  const logOptions = loggerOptionsFromEnv();
+  setLogger(createLogger({
+    level: options.quiet ? "error" : options.logLevel ?? logOptions.level,
+    format: options.logFormat ?? logOptions.format,
+  }));
+
+  const cache = new FileCache({
+    directory: options.cacheDir ?? process.env.RESEARCH_CACHE_DIR ?? defaultCacheDirectory,
+  });
+  if (options.clearCache) {
+    await cache.clear();
+    logger.info(`Cache cleared: ${cache.directory}`);
+  }
+
+  // Every run saves its state after each node, so that it can be resumed or forked
+  const checkpointer = new FileCheckpointSaver(
+    options.checkpointDir ?? process.env.RESEARCH_CHECKPOINT_DIR ?? defaultCheckpointDirectory
+  );
+  const researcher = createResearcher(checkpointer);
+
+  if (options.listCheckpoints) {
+    if (!checkpointer.hasThread(options.listCheckpoints)) {
+      console.error(`No checkpoints found for run ${options.listCheckpoints}`);
+      return 1;
+    }
+    console.log("checkpoint                             step  next");
+    for await (const snapshot of researcher.getStateHistory({ configurable: { thread_id: options.listCheckpoints } })) {
+      const step = String(snapshot.metadata?.step ?? "").padStart(4);
+      console.log(`${snapshot.config.configurable?.checkpoint_id}  ${step}  ${snapshot.next.join(", ") || "(done)"}`);
+    }
+    return 0;
+  }
+
+  if (options.resume && !checkpointer.hasThread(options.resume)) {
+    console.error(`No checkpoints found for run ${options.resume}`);
+    return 2;
+  }
+
+  // Take the topic from the arguments, or from stdin when none was given (resumed runs already have one)
+  const researchTopic = options.resume ? undefined : options.topic || await readStdin();
+  if (!options.resume && !researchTopic) {
+    if (options.clearCache) return 0;
+    console.error(`No research topic given.\n\n${usage}`);
+    return 2;
+  }
+  const threadId = options.resume ?? options.thread ?? randomUUID();
+
+  // Validate the research settings before anything runs. A resumed run keeps the settings it
+  // recorded (but the models of the current provider), unless a config file or flags change them.
+  let config: ResearchConfig;
+  try {
+    const recorded: ResearchConfig | undefined = options.resume
+      ? (await researcher.getState({ configurable: { thread_id: threadId } })).values.config
+      : undefined;
+    const file = options.configFile ? JSON.parse(await fs.readFile(options.configFile, "utf8")) : {};
+    config = resolveResearchConfig(recorded ? { ...recorded, models: undefined } : {}, file, options.config);
+  } catch (error) {
+    if (!(error instanceof ResearchConfigError || error instanceof SyntaxError || (error as NodeJS.ErrnoException).code === "ENOENT")) throw error;
+    console.error((error as Error).message);
+    return 2;
+  }
+
+  try {
+    const reportPrompt = options.reportPrompt ? await fs.readFile(options.reportPrompt, "utf8") : undefined;
+    const answer = options.answer ? JSON.parse(await fs.readFile(options.answer, "utf8")) : undefined;
+
+    // Build the LLM provider from the environment, overridden by the flags
+    const llmSettings = llmSettingsFromEnv(
+      options.llmProvider ? { ...process.env, LLM_PROVIDER: options.llmProvider } : process.env
+    );
+
+    // Build the search backend the same way
+    const searchSettings = searchSettingsFromEnv();
+    let searchProvider = createSearchProvider({
+      ...searchSettings,
+      providers: options.searchProviders ?? searchSettings.providers,
+      corpusDir: options.corpusDir ?? searchSettings.corpusDir,
+      searxngUrl: options.searxngUrl ?? searchSettings.searxngUrl,
     });
-    
+    let llm = createLLMProvider(llmSettings);
+
+    // Record or replay every LLM and search call through a cassette
+    const cassettePath = options.record ?? options.replay;
+    const cassette = cassettePath
+      ? await Cassette.open(cassettePath, options.record ? "record" : "replay")
+      : undefined;
+    if (cassette) {
+      llm = new CassetteLLMProvider(llm, cassette);
+      searchProvider = new CassetteSearchProvider(searchProvider, cassette);
+    }
+
+    logger.info(options.from
+      ? `Forking run ${threadId} from checkpoint ${options.from}`
+      : `${options.resume ? "Resuming" : "Starting"} run ${threadId} (resume with --resume ${threadId})`);
+
+    // Execute the research graph with the topic (none when resuming) and the per-run options.
+    // At each review point the run pauses; it continues with the reviewer's answer.
+    let input: { topic: string } | Command | null = researchTopic ? { topic: researchTopic } : null;
+    if (answer !== undefined) input = new Command({ resume: answer });
+    // Rewriting sections runs Write (and Verify) again, as if the sub-questions had just been merged
+    if (options.rewriteSections) {
+      await researcher.updateState({ configurable: { thread_id: threadId } }, {}, "Merge");
+    }
+    let checkpointId = options.from;
+    let result;
+    let pending: ReviewRequest | undefined;
+    for (;;) {
+      result = await researcher.invoke(input, {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_id: checkpointId,
+          reportPrompt,
+          rewriteSections: options.rewriteSections,
+          review: options.review,
+          ...config,
+          llm,
+          search: searchProvider,
+          // Every progress event but the report chunks is logged at debug level
+          onEvent: (event: ResearchEvent) => {
+            if (event.type !== "report_token") logger.debug(`Event: ${event.type}`, { ...event });
+          },
+          // Cache hits would bypass the cassette, so recording and replaying run uncached
+          cache: options.noCache || cassette ? undefined : cache,
+        },
+      });
+
+      const snapshot = await researcher.getState({ configurable: { thread_id: threadId } });
+      pending = snapshot.tasks.flatMap(task => task.interrupts)[0]?.value as ReviewRequest | undefined;
+      // Without a terminal to ask on, stop and let the reviewer answer with --answer
+      if (!pending || !process.stdin.isTTY) break;
+
+      input = new Command({ resume: await promptReview(pending) });
+      checkpointId = undefined;
+    }
+
+    if (cassette) {
+      await cassette.save();
+      logger.info(`Cassette ${cassette.mode === "record" ? "recorded" : "replayed"}: ${cassette.filePath} (${cassette.size} entries)`);
+    }
+    // A replay that needed unrecorded calls did not reproduce the run
+    const cassetteMisses = cassette?.misses.length ?? 0;
+    if (cassetteMisses > 0) {
+      logger.error(`Replay failed: ${cassetteMisses} call(s) were not found in the cassette`);
+    }
+
+    if (pending) {
+      process.stdout.write(JSON.stringify(pending, null, 2) + "\n");
+      logger.warn(`Run paused for ${pending.type} review. Write the answer to a JSON file and continue with `
+        + `--resume ${threadId} --answer <file>${pending.type === "plan" && options.review.sources ? " --review sources" : ""}`);
+      return 3;
+    }
+
+    if (options.exportFormats.length > 0 && result.report) {
+      const paths = await exportReport(result, options.exportFormats, { directory: options.exportDir ?? "." });
+      logger.info(`Exported: ${paths.join(", ")}`);
+    }
+
+    if (options.json) {
+      // Print the whole final state (queries, sources, report)
+      const json = JSON.stringify(result, null, 2);
+      if (options.output) {
+        await fs.writeFile(options.output, json + "\n", "utf8");
+      } else {
+        process.stdout.write(json + "\n");
+      }
+      return result.report && cassetteMisses === 0 ? 0 : 1;
+    }
+
+    if (!result.report) {
+      logger.error("No report was generated");
+      return 1;
+    }
+
+    // Quiet runs print the report alone
+    if (options.quiet) {
+      if (options.output) {
+        await fs.writeFile(options.output, result.report.content, "utf8");
+      } else {
+        process.stdout.write(result.report.content + "\n");
+      }
+      return cassetteMisses === 0 ? 0 : 1;
+    }
+
     // Output the results
     console.log("\n--- RESEARCH COMPLETE ---");
-    console.log(`Topic: ${researchTopic}`);
-    
-    if (result.report) {
-      console.log(`\nTitle: ${result.report.title}`);
-      console.log(`\nReport:\n${result.report.content}`);
-    } else {
-      console.log("No report was generated");
-    }
-    
+    console.log(`Topic: ${result.topic}`);
+    console.log(`Config: ${JSON.stringify(result.config ?? config)}`);
+
+    console.log(`\nTitle: ${result.report.title}`);
+    console.log(`\nReport:\n${result.report.content}`);
+
+    const flagged = (result.report.citations || []).filter(c => c.status === "unsupported" || c.status === "dangling");
+    if (flagged.length > 0) {
+      console.log(`\nCitation check: ${flagged.length} citation(s) flagged as unsupported or pointing to no source`);
+    }
+
+    if (result.usage) {
+      const tokens = (by: "node" | "model") => groupUsage(result.usage!.entries, by)
+        .map(group => `${group.key} ${group.inputTokens + group.outputTokens} ($${group.cost.toFixed(4)})`).join(", ");
+      console.log(`\nUsage: ${formatUsage(result.usage.totals)}`);
+      console.log(`  by node:  ${tokens("node")}`);
+      console.log(`  by model: ${tokens("model")}`);
+    }
+
+    if (options.output) {
+      await fs.writeFile(options.output, result.report.content, "utf8");
+      console.log(`\nReport written to ${options.output}`);
+    }
+    return cassetteMisses === 0 ? 0 : 1;
+
   } catch (error) {
-    console.error("Research process failed:", error);
+    logger.error(`Research process failed. Completed steps are saved: resume with --resume ${threadId}`, { error });
+    return 1;
   }
 }
 
-// Run the main function
-main();
+// Run the main function and exit with its status code
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
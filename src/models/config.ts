@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { ModelRole, modelRoles } from "../providers/llm/types";
+import { Budget } from "./usage";
+import { SourcePolicy } from "./policy";
+
+export type ResearchPreset = "quick" | "standard" | "exhaustive";
+
+export const researchPresets: ResearchPreset[] = ["quick", "standard", "exhaustive"];
+
+const positiveInt = z.number().int().positive();
+const temperature = z.number().min(0).max(2);
+
+// Sampling temperature of each model task; revision is the writer fixing unsupported citations
+export type Temperatures = Record<ModelRole | "revision", number>;
+
+// Limits of a run (see Budget)
+export const budgetSchema = z.object({
+  maxTokens: positiveInt.optional(),
+  maxCost: z.number().positive().optional(),
+  maxSearchCalls: positiveInt.optional(),
+  maxWallTimeMs: positiveInt.optional(),
+  reserve: z.number().min(0).max(1).optional(),
+}).strict();
+
+const domains = z.array(z.string().trim().min(1));
+
+// Rules for the sources of a run (see SourcePolicy)
+export const sourcePolicySchema = z.object({
+  includeDomains: domains.optional(),
+  excludeDomains: domains.optional(),
+  trustedDomains: domains.optional(),
+  untrustedDomains: domains.optional(),
+  maxAgeDays: positiveInt.optional(),
+  maxPerDomain: positiveInt.optional(),
+  searchTopic: z.enum(["general", "news", "finance"]).optional(),
+}).strict();
+
+// Settings of a research run, as given in config.configurable, in a config file or in an HTTP request.
+// Every field is optional: missing ones come from the preset (default: standard).
+export const researchConfigSchema = z.object({
+  preset: z.enum(["quick", "standard", "exhaustive"]).optional(),
+  maxIterations: positiveInt.optional(), // Search/evaluate iterations before forcing completion
+  maxQueries: positiveInt.optional(), // Queries generated by the planner, in total
+  maxSubQuestions: positiveInt.optional(), // Sub-questions the planner breaks the topic into
+  maxResults: positiveInt.optional(), // Search results kept per query
+  searchDepth: z.enum(["basic", "advanced"]).optional(), // Tavily search depth
+  maxSources: positiveInt.optional(), // Sources the filter keeps for the report
+  scoreBatchSize: positiveInt.optional(), // Sources scored by the filter in one call
+  duplicateQueryThreshold: z.number().min(0).max(1).optional(), // Similarity from which a query repeats an earlier one
+  duplicateContentThreshold: z.number().min(0).max(1).optional(), // Similarity from which two pages are the same source
+  minNewSourceRatio: z.number().min(0).max(1).optional(), // Share of new sources below which an iteration ends the research
+  chunkTokens: positiveInt.optional(), // Tokens per chunk of a long page, summarized map-reduce style
+  maxChunks: positiveInt.optional(), // Chunks of a page summarized, the most relevant to the query
+  contextTokens: positiveInt.optional(), // Tokens of sources packed into the evaluation and report prompts
+  reportMode: z.enum(["sections", "single"]).optional(), // Outline and one call per section, or one call
+  maxReportTokens: positiveInt.optional(), // Output tokens of the report (of each section, and of the revision)
+  concurrency: positiveInt.optional(), // Searches, and summaries, run at the same time
+  citations: z.enum(["flag", "revise", "off"]).optional(),
+  language: z.string().trim().min(1).optional(), // Of the report: "auto" (the topic's), or a language code or name
+  queryLanguages: z.array(z.string().trim().min(1)).optional(), // Searched besides the topic's language
+  temperatures: z.object(
+    Object.fromEntries([...modelRoles, "revision"].map(task => [task, temperature.optional()])) as
+      Record<ModelRole | "revision", z.ZodOptional<typeof temperature>>
+  ).strict().optional(),
+  models: z.object(
+    Object.fromEntries(modelRoles.map(role => [role, z.string().min(1).optional()])) as
+      Record<ModelRole, z.ZodOptional<z.ZodString>>
+  ).strict().optional(), // Model of each role, overriding the provider's choice
+  budget: budgetSchema.optional(),
+  sourcePolicy: sourcePolicySchema.optional(),
+}).strict();
+
+export type ResearchConfigInput = z.infer<typeof researchConfigSchema>;
+
+// Settings of a research run with every default resolved; recorded in the final state
+export interface ResearchConfig {
+  preset: ResearchPreset;
+  maxIterations: number;
+  maxQueries: number;
+  maxSubQuestions: number;
+  maxResults: number;
+  searchDepth: "basic" | "advanced";
+  maxSources: number;
+  scoreBatchSize: number;
+  duplicateQueryThreshold: number;
+  duplicateContentThreshold: number;
+  minNewSourceRatio: number;
+  chunkTokens: number;
+  maxChunks: number;
+  contextTokens: number;
+  reportMode: "sections" | "single";
+  maxReportTokens: number;
+  concurrency: number;
+  citations: "flag" | "revise" | "off";
+  language: string;
+  queryLanguages: string[];
+  temperatures: Temperatures;
+  models: Partial<Record<ModelRole, string>>;
+  budget: Budget;
+  sourcePolicy: SourcePolicy;
+}
@@ -0,0 +1,23 @@
+import { Fallback } from "./fallback";
+import { RejectedSource } from "./policy";
+
+// Progress of a research run, emitted by the nodes through LangGraph's "custom" stream mode
+// and to the run's configurable.onEvent callback
+export type ResearchEvent =
+  | { type: "node_started"; node: string }
+  | { type: "node_finished"; node: string }
+  | { type: "plan_generated"; subQuestions: string[]; queries: string[]; fallback?: Fallback }
+  | { type: "queries_issued"; iteration: number; queries: string[] }
+  | { type: "query_started"; iteration: number; query: string }
+  | { type: "query_suppressed"; iteration: number; query: string; duplicateOf: string }
+  | { type: "query_finished"; iteration: number; query: string; sources: number }
+  | { type: "source_summarized"; query: string; title: string; link: string; cached: boolean }
+  | { type: "sources_added"; iteration: number; sources: Array<{ query: string; title: string; link: string }> }
+  | { type: "sources_rejected"; iteration: number; sources: RejectedSource[] } // Dropped by the source policy
+  | { type: "evaluation_verdict"; subQuestion: number; iteration: number; isComplete: boolean; queries: string[]; forced: boolean; fallback?: Fallback }
+  | { type: "filter_result"; iteration: number; kept: number; total: number; fallback?: Fallback }
+  | { type: "sub_questions_merged"; answered: string[]; open: string[] } // Every branch is done
+  | { type: "report_token"; text: string } // A chunk of the report, as the writer streams it
+  | { type: "error"; node: string; message: string };
+
+export type ResearchEventType = ResearchEvent["type"];
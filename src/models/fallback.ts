@@ -0,0 +1,11 @@
+// A step that could not use the model's answer and continued another way
+export interface Fallback {
+  reason: string; // What went wrong
+  action: string; // What was done instead
+}
+
+// Fallback recorded in the research state
+export interface FallbackRecord extends Fallback {
+  node: string;
+  iteration: number;
+}
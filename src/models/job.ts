@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { ResearchEvent } from "./events";
+import { researchConfigSchema } from "./config";
+
+// Body of POST /research: the topic and the run's research settings (see ResearchConfig)
+export const researchRequestSchema = z.object({
+  topic: z.string().trim().min(1),
+}).merge(researchConfigSchema);
+
+export type ResearchRequest = z.infer<typeof researchRequestSchema>;
+
+export type JobStatus = "running" | "completed" | "failed" | "cancelled";
+
+// Progress events of a job, closed by an "end" event carrying its final status
+export type JobEvent = ResearchEvent | { type: "end"; status: JobStatus; error?: string };
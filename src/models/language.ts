@@ -0,0 +1,6 @@
+// Languages of a research run, as ISO 639-1 codes or language names
+export interface ResearchLanguages {
+  topic: string; // Detected from the topic
+  report: string; // Of the sub-questions, the summaries and the report
+  queries: string[]; // Of the search queries: the topic's first, then the cross-lingual ones
+}
@@ -1,8 +1,66 @@
-export interface ResearchPlan {
-  queries: string[];
-}
+import { z } from "zod";
+import { QueryRecord, QueryResults, SearchResult } from "./search";
+import { FallbackRecord } from "./fallback";
+import { Budget, RunUsage } from "./usage";
+import { RejectedSource } from "./policy";
+
+// Sub-questions the planner breaks the topic into, each with the queries that start its research
+export const researchPlanSchema = z.object({
+  subQuestions: z.array(z.object({
+    question: z.string().min(1),
+    queries: z.array(z.string().min(1)).min(1),
+  })).min(1),
+});
+
+export type ResearchPlan = z.infer<typeof researchPlanSchema>;
 
-export interface ResearchEvaluation {
-  isComplete: boolean;
-  queries: string[];
+export type PlannedQuestion = ResearchPlan["subQuestions"][number];
+
+// A sub-question researched in its own branch of the graph, with its own search/evaluate loop and
+// completeness verdict. It is answered when the evaluator judged it complete, and left open when
+// the iterations, the budget or new sources ran out first. Once every branch is done, the working
+// fields are merged into the run's state and only the outcome is kept.
+export interface SubQuestion {
+  id: number; // 1-based position in the plan
+  question: string;
+  status: "researching" | "answered" | "open";
+  reason?: string; // Why the question was left open
+  iterationCount: number;
+  sources?: number; // Sources selected for the report, once merged
+  // Working fields of the branch
+  queries?: string[]; // Queries to search next
+  results?: QueryResults[];
+  filteredResults?: SearchResult[];
+  queryHistory?: QueryRecord[];
+  rejectedSources?: RejectedSource[]; // Results the source policy dropped
+  usage?: RunUsage; // Usage of the run when the branch started, plus its own
+  budget?: Budget; // The branch's share of the run's budget
+  fallbacks?: FallbackRecord[];
 }
+
+// Verdict of the evaluator; follow-up queries are required while research is incomplete
+export const researchEvaluationSchema = z.object({
+  reasoning: z.string().optional(),
+  isComplete: z.boolean(),
+  queries: z.array(z.string()),
+}).refine(
+  evaluation => evaluation.isComplete || evaluation.queries.length > 0,
+  { message: "queries must not be empty when isComplete is false", path: ["queries"] }
+);
+
+export type ResearchEvaluation = z.infer<typeof researchEvaluationSchema>;
+
+const score = z.number().min(0).max(10);
+
+// Scores returned by the filter for a batch of sources, keyed by source ID
+export const sourceScoresSchema = z.object({
+  scores: z.array(z.object({
+    id: z.string(),
+    relevance: score,
+    reliability: score,
+    recency: score,
+    rationale: z.string(),
+  })),
+});
+
+export type SourceScores = z.infer<typeof sourceScoresSchema>;
@@ -0,0 +1,27 @@
+// Rules the sources of a run must follow. A domain such as "nih.gov" also covers its subdomains,
+// and a suffix such as "gov" or "ac.uk" covers every domain ending with it.
+export interface SourcePolicy {
+  includeDomains?: string[]; // Only sources from these domains are kept (and searched, where the provider can)
+  excludeDomains?: string[]; // Sources from these domains are dropped
+  trustedDomains?: string[]; // Ranked above the others, e.g. government and academic sites
+  untrustedDomains?: string[]; // Ranked below the others, e.g. content farms
+  maxAgeDays?: number; // Sources published longer ago are dropped; undated ones are kept
+  maxPerDomain?: number; // Sources of one domain in the report
+  searchTopic?: "general" | "news" | "finance"; // Tavily search topic; news results carry their publication date
+}
+
+export type TrustTier = "trusted" | "standard" | "untrusted";
+
+// What the policy made of a source, kept with it so that a run can show why each source was allowed
+export interface PolicyMatch {
+  tier: TrustTier;
+  rules: string[]; // Rules the source matched, e.g. "trustedDomains: gov"
+}
+
+// A search result the policy dropped before it was summarized
+export interface RejectedSource {
+  title: string;
+  link: string;
+  query: string;
+  rule: string; // The rule that dropped it, e.g. "excludeDomains: pinterest.com"
+}
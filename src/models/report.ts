@@ -1,8 +1,64 @@
+import { z } from "zod";
+import { SearchResult } from './search';
+
 export interface SourceList {
   sources: number[];
 }
 
+// supported/unsupported: checked against the cited source; dangling: the marker cites no source;
+// unverified: the check could not be made
+export type CitationStatus = "supported" | "unsupported" | "dangling" | "unverified";
+
+// One citation marker ([Ref. n]) in one sentence of the report
+export interface Citation {
+  marker: number;
+  sentence: string;
+  offset: number; // Position in the report content just after the sentence, where a flag goes
+  source?: SearchResult; // The source [Ref. n] points to; missing for dangling markers
+  status: CitationStatus;
+  reason?: string;
+}
+
+// Introduction and conclusion are written from the body sections; body sections from their sources
+export type SectionKind = "introduction" | "body" | "conclusion";
+
+// One section of a report written section by section
+export interface ReportSection {
+  kind: SectionKind;
+  heading: string;
+  description?: string; // What the section covers, from the outline
+  sources: number[]; // [Ref. n] numbers of the sources assigned to the section
+  content: string; // Markdown of the section, without its heading
+}
+
 export interface Report {
   title: string;
   content: string;
+  sources: SearchResult[]; // Sources given to the writer: [Ref. n] refers to sources[n - 1]
+  sections?: ReportSection[]; // In report order, when the report was written section by section
+  language?: string; // Language the report was asked to be written in
+  citations?: Citation[]; // Set by the citation check
 }
+
+// Outline of a report: its title and body sections, each with the numbers of its sources
+export const reportOutlineSchema = z.object({
+  title: z.string().min(1),
+  sections: z.array(z.object({
+    heading: z.string().min(1),
+    description: z.string(),
+    sources: z.array(z.number().int()),
+  })).min(1),
+});
+
+export type ReportOutline = z.infer<typeof reportOutlineSchema>;
+
+// Verdicts of the verifier for a batch of numbered claims
+export const citationChecksSchema = z.object({
+  checks: z.array(z.object({
+    claim: z.number().int(),
+    supported: z.boolean(),
+    reason: z.string().optional(),
+  })),
+});
+
+export type CitationChecks = z.infer<typeof citationChecksSchema>;
@@ -0,0 +1,39 @@
+import { SearchResult } from './search';
+import { PlannedQuestion } from './plan';
+
+// Sent to the reviewer when the run pauses after Plan
+export interface PlanReviewRequest {
+  type: "plan";
+  topic: string;
+  queries: string[]; // The queries of every sub-question
+  subQuestions: PlannedQuestion[];
+}
+
+// The reviewer's answer: the query list to search, after editing, deleting or adding queries,
+// or the sub-questions to research with their queries
+export interface PlanReview {
+  queries?: string[];
+  subQuestions?: PlannedQuestion[];
+}
+
+// Sent to the reviewer when the run pauses before Write
+export interface SourceReviewRequest {
+  type: "sources";
+  topic: string;
+  sources: SearchResult[]; // Sources selected for the report
+  candidates: SearchResult[]; // Every source found, which can be pinned
+}
+
+export interface SourceReview {
+  pin?: string[]; // URLs to include in the report even if they were filtered out
+  exclude?: string[]; // URLs to keep out of the report
+  notes?: string; // Notes for the writer
+}
+
+export type ReviewRequest = PlanReviewRequest | SourceReviewRequest;
+
+// Which review points pause the run (config.configurable.review)
+export interface ReviewOptions {
+  plan?: boolean;
+  sources?: boolean;
+}
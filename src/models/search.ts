@@ -1,16 +1,52 @@
+import { SourceIndex } from '../utils/dedup';
+import { shareBudget, truncateToTokens } from '../utils/chunks';
+import { estimateTokens } from '../providers/llm/metered';
+import { PolicyMatch } from './policy';
+
+// Assessment of a source by the filter, from 0 to 10, kept with the source across iterations
+export interface SourceScore {
+  relevance: number; // How directly it addresses the topic; 0 when it does not
+  reliability: number; // How authoritative and fact-based it appears
+  recency: number; // How up to date it is for the topic
+  rationale: string;
+}
+
 export interface SearchResult {
+  id?: string; // Stable ID, from the canonical URL
   title: string;
   link: string;
-  content: string;
+  content: string; // Snippet returned by the search
+  rawContent?: string; // Full text of the page, when the provider returns it
   filteredContent?: string;
+  origin?: string; // Search provider that returned the result (tavily, searxng, local...)
+  language?: string; // Detected from the text of the page, which is kept (and cited) as it is
+  publishedDate?: string; // As given by the provider, when it gives one
+  policy?: PolicyMatch; // Trust tier and source policy rules matched, set when the source is found
+  queries?: string[]; // Every query that found the source
+  duplicates?: string[]; // Links of the copies merged into this source
+  score?: SourceScore; // Set once, by the first evaluation that sees the source
 }
 
 export class SearchResults {
   constructor(public results: SearchResult[]) {}
 
-  public toString(): string {
-    return this.results
-      .map((result, i) => `[${i + 1}] ${this.formatResult(result)}`)
+  // With a token budget, the summaries (or, for sources without one, the full texts) are cut
+  // to fit in it together: each source gets an equal share, and what short ones leave goes to the others.
+  // Sources are numbered from 1, or with the given numbers.
+  public toString(maxTokens?: number, numbers?: number[]): string {
+    const label = (i: number) => `[${numbers?.[i] ?? i + 1}]`;
+    if (maxTokens === undefined) {
+      return this.results
+        .map((result, i) => `${label(i)} ${this.formatResult(result)}`)
+        .join("\n\n");
+    }
+
+    const headers = this.results.map((result, i) => `${label(i)} Title: ${result.title || 'No Title'}\n`
+      + `Link: ${result.link || 'No Link'}\n${result.filteredContent ? 'Refined Content' : 'Raw Content'}: `);
+    const texts = this.results.map(result => result.filteredContent || result.rawContent || result.content || 'No Content');
+    const allowances = shareBudget(texts, Math.max(0, maxTokens - estimateTokens(headers.join("\n\n"))));
+    return headers
+      .map((header, i) => header + truncateToTokens(texts[i], allowances[i]))
       .join("\n\n");
   }
 
@@ -42,17 +78,27 @@ export class SearchResults {
     return new SearchResults(this.results.concat(other.results));
   }
 
-  public dedup(): SearchResults {
-    const seen = new Set<string>();
-    const unique: SearchResult[] = [];
+  // Merge the results that are the same page (by canonical URL) or near-duplicates of one another
+  public dedup(threshold?: number): SearchResults {
+    const index = new SourceIndex(threshold);
+    this.results.forEach(result => index.add(result));
+    return new SearchResults(index.records);
+  }
+}
 
-    for (const result of this.results) {
-      if (!seen.has(result.link)) {
-        seen.add(result.link);
-        unique.push(result);
-      }
-    }
+// A query that was searched, with the iteration it ran in, how many sources it returned
+// and how many of them no earlier query had found
+export interface QueryRecord {
+  query: string;
+  iteration: number;
+  sources: number;
+  newSources: number;
+  subQuestion?: number; // ID of the sub-question whose branch searched it
+}
 
-    return new SearchResults(unique);
-  }
+// Sources found by one query
+export interface QueryResults {
+  query: string;
+  searchResults: SearchResults;
+  iteration: number; // Search iteration that issued the query
 }
@@ -0,0 +1,35 @@
+import { TokenUsage } from "../providers/llm/types";
+
+// Model calls of one node, for one model, in one iteration
+export interface UsageEntry extends TokenUsage {
+  node: string;
+  iteration: number;
+  model: string;
+  calls: number;
+  cost: number; // Estimated, in US dollars
+}
+
+export interface UsageTotals extends TokenUsage {
+  totalTokens: number;
+  cost: number;
+  llmCalls: number;
+  searchCalls: number;
+  elapsedMs: number; // Wall time since the run started
+}
+
+// Resources consumed by a run, kept in the research state
+export interface RunUsage {
+  startedAt: number; // Epoch milliseconds
+  searchCalls: number;
+  entries: UsageEntry[];
+  totals: UsageTotals;
+}
+
+// Limits of a run; the graph writes the report with what it has once one is nearly used up
+export interface Budget {
+  maxTokens?: number; // Input and output tokens of every model call
+  maxCost?: number; // Estimated cost in US dollars
+  maxSearchCalls?: number; // Queries sent to the search providers
+  maxWallTimeMs?: number; // Time since the run started
+  reserve?: number; // Share of the token, cost and time budgets kept for writing the report (default: 0.1)
+}
@@ -1,143 +1,198 @@
-import { gemini, prompts, parseJsonFromText, models } from '../utils/gemini';
-import { SearchResults } from '../models/search';
-import { ResearchEvaluation } from '../models/plan';
+import { prompts } from '../utils/prompts';
+import { generateStructured } from '../utils/structured';
+import { LLMProvider, getDefaultLLMProvider } from '../providers/llm';
+import { QueryRecord, SearchResult, SearchResults, SourceScore } from '../models/search';
+import { ResearchEvaluation, researchEvaluationSchema, sourceScoresSchema } from '../models/plan';
+import { Fallback } from '../models/fallback';
+import { TrustTier } from '../models/policy';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { sourceId } from '../utils/dedup';
+import { queryLanguageInstruction } from '../utils/language';
+import { domainCap } from '../utils/policy';
+import { logger } from '../utils/logger';
 
 export async function evaluateCompleteness(
   topic: string,
-  results: SearchResults
-): Promise<ResearchEvaluation> {
-  console.log('Evaluating research completeness...');
+  results: SearchResults,
+  llm: LLMProvider = getDefaultLLMProvider(),
+  temperature: number = 0.2, // Lower temperature for consistent evaluation
+  history: QueryRecord[] = [],
+  contextTokens?: number, // Tokens the sources may take in the prompt
+  queryLanguages: string[] = [] // Languages of the follow-up queries; none leaves them to the model
+): Promise<ResearchEvaluation & { fallback?: Fallback }> {
+  logger.info('Evaluating research completeness...');
   if (results.results.length === 0) {
-    console.warn("Evaluating completeness with zero results. Assuming research is not complete.");
-    // Return a default 'not complete' state if there are no results to evaluate
-    return { isComplete: false, queries: [`${topic} overview`, `${topic} key aspects`] };
+    logger.warn("Evaluating completeness with zero results. Assuming research is not complete.");
+    // Nothing to evaluate: search the topic itself
+    return {
+      isComplete: false,
+      queries: [topic],
+      fallback: { reason: "no search results to evaluate", action: "searching the topic itself" },
+    };
   }
 
-  const evaluationModel = gemini.getGenerativeModel({ 
-    model: models.premium,
-    generationConfig: {
-      temperature: 0.2, // Lower temperature for consistent evaluation
-    }
-  });
-  const standardModel = gemini.getGenerativeModel({ model: models.standard });
-
   try {
-    const response = await evaluationModel.generateContent({
-      contents: [{ role: "user", parts: [{ text: `${prompts.evaluationPrompt}\n\n<Research Topic>${topic}</Research Topic>\n\n<Search Results>${results.toString()}</Search Results>` }] }],
-    });
-
-    const evaluation = response.response.text();
-    console.log('Raw Evaluation result text:', evaluation); // Log raw evaluation
-    // Parse follow-up queries from the evaluation
-    const parseResponse = await standardModel.generateContent({
-      contents: [{
-        role: "user",
-        parts: [{
-          text: `Extract the following from the evaluation as JSON:\n
-          1. isComplete: boolean indicating if the research is complete
-          2. queries: array of follow-up search queries (empty if complete)
-
-          Evaluation: ${evaluation}\n\nReturn ONLY the JSON object.` // Added instruction for JSON only
-        }]
-      }],
+    const evaluation = await generateStructured(llm, {
+      role: "evaluator",
+      prompt: `${prompts.evaluationPrompt}\n\n`
+        + (queryLanguages.length > 0 ? `${queryLanguageInstruction(queryLanguages)}\n\n` : "")
+        + `<Research Topic>${topic}</Research Topic>\n\n`
+        + (history.length > 0 ? `<Queries Already Searched>\n${formatQueryHistory(history)}\n</Queries Already Searched>\n\n` : "")
+        + `<Search Results>${results.toString(contextTokens)}</Search Results>`,
+      temperature,
+      schema: researchEvaluationSchema,
     });
-
-    const parsedText = parseResponse.response.text();
-    console.log('Raw JSON extraction text:', parsedText); // Log raw text before parsing
-    // **Add try-catch around JSON parsing**
-    try {
-      const parsedEvaluation = await parseJsonFromText<ResearchEvaluation>(parsedText);
-      // **Add validation check**
-      if (typeof parsedEvaluation.isComplete !== 'boolean' || !Array.isArray(parsedEvaluation.queries)) {
-        console.warn("Parsed evaluation JSON has incorrect structure. Defaulting to not complete.", parsedEvaluation);
-         // Provide default queries if structure is wrong but parsing succeeded
-         const defaultQueries = [`${topic} further details`, `${topic} recent developments`];
-         return { isComplete: false, queries: parsedEvaluation.queries?.length > 0 ? parsedEvaluation.queries : defaultQueries };
-      }
-      console.log('Successfully parsed evaluation:', parsedEvaluation);
-      return parsedEvaluation;
-    } catch (parseError) {
-      console.error("Failed to parse JSON from evaluation response:", parseError);
-      console.warn("Defaulting to research not complete due to parsing error.");
-        
-      // Fallback if JSON parsing fails completely
-      return { isComplete: false, queries: [`${topic} summary`, `${topic} related topics`] };
-    }
-
+    logger.debug('Evaluation', { evaluation });
+    return evaluation;
   } catch (error) {
-    console.error("Error during completeness evaluation API call:", error);
-    console.warn("Defaulting to research not complete due to API error.");
-    // Fallback if the initial evaluation API call fails
-    return { isComplete: false, queries: [`${topic} overview`, `${topic} challenges`] };
+    logger.error("Completeness evaluation failed. Searching again in the next iteration.", { error });
+    // Without a verdict there are no follow-up queries; the next iteration evaluates again,
+    // and maxIterations still ends the research if the evaluations keep failing
+    return {
+      isComplete: false,
+      queries: [],
+      fallback: { reason: (error as Error).message, action: "searching the question again in the next iteration" },
+    };
   }
 }
 
-// Define an interface for the expected JSON structure from the filter prompt
-interface FilterResponse {
-  rankedSources?: number[]; // Make it optional to handle cases where it might be missing
+// One line per query searched: iteration, query and the new sources it found
+export function formatQueryHistory(history: QueryRecord[]): string {
+  return history
+    .map(record => `- Iteration ${record.iteration}: "${record.query}" (${record.newSources} new sources)`)
+    .join("\n");
 }
 
-export async function filterSearchResults(
-  topic: string,
-  results: SearchResults
-): Promise<SearchResults> {
-  console.log('Filtering search results...');
-  if (results.results.length === 0) {
-    console.log("No results to filter.");
-    return results; // Return empty results if nothing to filter
-  }
+// Weight of each score in the rank of a source
+export const scoreWeights = { relevance: 0.6, reliability: 0.25, recency: 0.15 };
 
-  const model = gemini.getGenerativeModel({ 
-    model: models.standard,
-    generationConfig: {
-      temperature: 0.1, // Lower temperature for consistent filtering
-    }
-  });
+const excerptLength = 1000;
 
-  try {
-    const response = await model.generateContent({
-      contents: [{
-        role: "user",
-        parts: [{
-          text: `${prompts.filterPrompt}\n\n<Research Topic>${topic}</Research Topic>\n\n<Search Results>\n${results.shortString()}\n</Search Results>\n\nReturn ONLY the JSON object with the key "rankedSources" containing an array of the relevant source numbers (e.g., {"rankedSources": [1, 3, 5]}).`
-        }]
-      }],
-      // Optional: Add safety settings if needed
-      // safetySettings: [...]
-    });
+// Points added to the combined score for the trust tier of the source's domain (see SourcePolicy)
+export const trustBonus: Record<TrustTier, number> = { trusted: 1, standard: 0, untrusted: -1 };
 
-    const filterText = response.response.text();
-    console.log('Filter result text:', filterText); // Log the raw text for debugging
+// Combined score of a source, from 0 to 10, moved up or down by its trust tier; unscored sources rank last
+export function sourceRank(source: SearchResult): number {
+  const score = source.score;
+  if (!score) return -1;
+  return score.relevance * scoreWeights.relevance
+    + score.reliability * scoreWeights.reliability
+    + score.recency * scoreWeights.recency
+    + trustBonus[source.policy?.tier ?? "standard"];
+}
 
-    // Attempt to parse the JSON
-    const parsedJson = await parseJsonFromText<FilterResponse>(filterText);
+// Score the sources that have no score yet, in batches of batchSize, keyed by their IDs.
+// Sources of a batch whose scoring fails (or that the model leaves out) stay unscored
+// and are scored again by the next evaluation.
+export async function scoreSources(
+  topic: string,
+  sources: SearchResult[],
+  llm: LLMProvider = getDefaultLLMProvider(),
+  temperature: number = 0.1, // Lower temperature for consistent scoring
+  batchSize: number = 10,
+  concurrency: number = 4
+): Promise<{ sources: SearchResult[]; scored: number; fallback?: Fallback }> {
+  const identified = sources.map(source => source.id ? source : { ...source, id: sourceId(source.link) });
+  const pending = identified.filter(source => !source.score && source.link);
+  if (pending.length === 0) return { sources: identified, scored: 0 };
+  logger.info(`Scoring ${pending.length} new sources...`);
+
+  const batches: SearchResult[][] = [];
+  for (let i = 0; i < pending.length; i += batchSize) {
+    batches.push(pending.slice(i, i + batchSize));
+  }
+
+  const scores = new Map<string, SourceScore>();
+  const failures: string[] = [];
+  await mapWithConcurrency(batches, concurrency, async batch => {
+    const entries = batch.map(source => {
+      const excerpt = (source.filteredContent || source.rawContent || source.content || "No Content").substring(0, excerptLength);
+      return `<Source id="${source.id}">\nTitle: ${source.title || "No Title"}\nLink: ${source.link}\n`
+        + (source.publishedDate ? `Published: ${source.publishedDate}\n` : "")
+        + `Content: ${excerpt}\n</Source>`;
+    });
 
-    // **Robust Check:** Ensure parsedJson and rankedSources exist and are an array
-    if (parsedJson && Array.isArray(parsedJson.rankedSources) && parsedJson.rankedSources.length > 0) {
-      const rankedIndices = parsedJson.rankedSources
-        // Filter out invalid numbers (non-numbers, out of bounds)
-        .filter(num => typeof num === 'number' && num > 0 && num <= results.results.length)
-        // Convert 1-based index from LLM to 0-based array index
-        .map(num => num - 1);
+    try {
+      const response = await generateStructured(llm, {
+        role: "filter",
+        prompt: `${prompts.filterPrompt}\n\n<Research Topic>${topic}</Research Topic>\n\n<Sources>\n${entries.join("\n\n")}\n</Sources>`,
+        temperature,
+        schema: sourceScoresSchema,
+      });
+      const ids = new Set(batch.map(source => source.id));
+      for (const { id, ...score } of response.scores) {
+        // Ignore IDs of sources that are not in the batch
+        if (ids.has(id)) scores.set(id, score);
+      }
+    } catch (error) {
+      logger.error("Source scoring failed", { error });
+      failures.push((error as Error).message);
+    }
+  });
 
-      // Create a new array with results in the ranked order
-      const filtered = rankedIndices.map(index => results.results[index]);
+  const unscored = pending.length - scores.size;
+  if (unscored > 0) logger.warn(`${unscored} sources were left unscored`);
+  return {
+    sources: identified.map(source => scores.has(source.id!) ? { ...source, score: scores.get(source.id!) } : source),
+    scored: scores.size,
+    ...(failures.length > 0
+      ? { fallback: { reason: failures[0], action: `left ${unscored} sources unscored` } }
+      : {}),
+  };
+}
 
-      // Limit to a reasonable number (e.g., top 10) after filtering
-      const finalFiltered = filtered.slice(0, 10);
-      console.log(`Filtered down to ${finalFiltered.length} results based on relevance ranking.`);
-      return new SearchResults(finalFiltered);
+// The best maxSources sources by combined score, leaving out those scored as irrelevant and keeping
+// at most maxPerDomain of each domain (0: no cap). Unscored sources follow the scored ones, in the order they were found.
+export function selectSources(sources: SearchResult[], maxSources: number = 10, maxPerDomain: number = 0): SearchResult[] {
+  return sources
+    .filter(source => source.link && source.score?.relevance !== 0)
+    .map((source, position) => ({ source, position, rank: sourceRank(source) }))
+    .sort((a, b) => b.rank - a.rank || a.position - b.position)
+    .map(({ source }) => source)
+    .filter(domainCap(maxPerDomain))
+    .slice(0, maxSources);
+}
 
-    } else {
-      console.warn("Failed to parse valid rankedSources array from filter response. Returning original top 5 results as fallback.");
-      // Fallback: Return the original top 5 results if filtering fails
-      return new SearchResults(results.results.slice(0, 5));
+// The sources of the report from the selections of several sub-questions, taken from each in turn,
+// best first, so that every sub-question is represented. A source selected twice counts once, and
+// each domain at most maxPerDomain times (0: no cap).
+export function mergeSelections(selections: SearchResult[][], maxSources: number = 10, maxPerDomain: number = 0): SearchResult[] {
+  const merged: SearchResult[] = [];
+  const seen = new Set<string>();
+  const withinCap = domainCap(maxPerDomain);
+  const longest = Math.max(0, ...selections.map(selection => selection.length));
+  for (let i = 0; i < longest && merged.length < maxSources; i++) {
+    for (const source of selections.map(selection => selection[i]).filter(Boolean)) {
+      const id = source.id ?? sourceId(source.link);
+      if (seen.has(id) || merged.length >= maxSources) continue;
+      seen.add(id);
+      if (!withinCap(source)) continue;
+      merged.push(source);
     }
+  }
+  return merged;
+}
 
-  } catch (error) {
-    console.error("Error during filtering:", error);
-    console.warn("Filter node failed. Returning original top 5 results as fallback.");
-    // Fallback: Return the original top 5 results if any error occurs
-    return new SearchResults(results.results.slice(0, 5));
+// Score the new sources, then choose the sources of the report from every score so far.
+// Returns the selection and every source with its score.
+export async function filterSearchResults(
+  topic: string,
+  results: SearchResults,
+  llm: LLMProvider = getDefaultLLMProvider(),
+  maxSources: number = 10,
+  temperature: number = 0.1, // Lower temperature for consistent filtering
+  batchSize: number = 10,
+  concurrency: number = 4,
+  maxPerDomain: number = 0
+): Promise<{ results: SearchResults; scored: SearchResult[]; fallback?: Fallback }> {
+  logger.info('Filtering search results...');
+  if (results.results.length === 0) {
+    logger.info("No results to filter.");
+    return { results, scored: [] }; // Return empty results if nothing to filter
   }
+
+  const { sources, fallback } = await scoreSources(topic, results.results, llm, temperature, batchSize, concurrency);
+  const selected = selectSources(sources, maxSources, maxPerDomain);
+  logger.info(`Selected ${selected.length} of ${sources.length} sources by score.`);
+  return { results: new SearchResults(selected), scored: sources, ...(fallback ? { fallback } : {}) };
 }
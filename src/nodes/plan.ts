@@ -1,65 +1,87 @@
-import { gemini, prompts, parseJsonFromText, models } from '../utils/gemini';
-import { ResearchPlan } from '../models/plan';
+import { prompts } from '../utils/prompts';
+import { generateStructured, StructuredOutputError } from '../utils/structured';
+import { LLMProvider, getDefaultLLMProvider } from '../providers/llm';
+import { PlannedQuestion, ResearchPlan, researchPlanSchema } from '../models/plan';
+import { Fallback } from '../models/fallback';
+import { ResearchLanguages } from '../models/language';
+import { languageName, queryLanguageInstruction } from '../utils/language';
+import { logger } from '../utils/logger';
+
+export async function generateResearchPlan(
+  topic: string,
+  maxQueries: number = 5,
+  llm: LLMProvider = getDefaultLLMProvider(),
+  temperature: number = 0.7, // Higher temperature for creative query generation
+  maxSubQuestions: number = 3,
+  languages?: ResearchLanguages // The queries are written in each query language, maxQueries for each
+): Promise<ResearchPlan & { queries: string[]; fallback?: Fallback }> {
+  logger.info(`Generating research plan for topic: ${topic}`);
+  const queryLanguages = languages?.queries.length || 1;
+  const totalQueries = maxQueries * queryLanguages;
 
-export async function generateResearchPlan(topic: string, maxQueries: number = 5): Promise<string[]> {
-  console.log(`Generating research plan for topic: ${topic}`);
-  
-  // Generate plan with Gemini - using premium plus model with creative temperature for brainstorming
-  const planModel = gemini.getGenerativeModel({ 
-    model: models.premiumPlus,
-    generationConfig: {
-      temperature: 0.7, // Higher temperature for creative query generation
-    }
-  });
-  const planResponse = await planModel.generateContent({
-    contents: [{ role: "user", parts: [{ text: `${prompts.planningPrompt}\n\nResearch Topic: ${topic}` }] }],
-  });
-  
-  const plan = planResponse.response.text();
-  console.log(`Generated plan: ${plan}`);
-  
-  // Use standard model to extract structured queries from the plan
-  const parseModel = gemini.getGenerativeModel({ model: models.standard });
-  // Extract structured queries from the plan - with more specific instructions
-  const parseResponse = await parseModel.generateContent({
-    contents: [{ 
-      role: "user", 
-      parts: [{ text: `Extract the search queries from this research plan as a JSON array with the following format: {"queries": ["query1", "query2", ...]}:\n\n${plan}` }] 
-    }],
-  });
-  
-  const parsedText = parseResponse.response.text();
-  // Add logging to see the raw response for query extraction
-  console.log(`Raw response for query extraction: ${parsedText}`);
-  
   try {
-    const jsonData = await parseJsonFromText<ResearchPlan>(parsedText);
-    // Check if we have the expected structure
-    if (jsonData && jsonData.queries && Array.isArray(jsonData.queries)) {
-      // Limit queries if needed
-      const queries = maxQueries > 0 ? jsonData.queries.slice(0, maxQueries) : jsonData.queries;
-      console.log(`Successfully parsed ${queries.length} queries from JSON.`);
-      return queries;
-    } else {
-      console.warn("Parsed JSON data does not have the expected structure. Falling back to manual extraction from the original plan.");
-      // Fallback: Try extracting manually from the original plan text if JSON structure is wrong
-      const extractedQueries = extractQueriesFromPlanText(plan, maxQueries);
-      console.log(`Extracted ${extractedQueries.length} queries manually from plan text (fallback 1).`);
-      // Ensure we return at least one query if extraction fails
-      return extractedQueries.length > 0 ? extractedQueries : [`${topic} impact and applications`];
-    }
+    // Generate the plan as JSON with a creative temperature for brainstorming
+    const plan = await generateStructured(llm, {
+      role: "planner",
+      prompt: `${prompts.planningPrompt}\n\nUse at most ${maxSubQuestions} sub-questions and ${totalQueries} queries in total.`
+        + (languages
+          ? `\nWrite the sub-questions in ${languageName(languages.report)}. ${queryLanguageInstruction(languages.queries)}`
+          : "")
+        + `\n\nResearch Topic: ${topic}`,
+      temperature,
+      schema: researchPlanSchema,
+    });
+
+    // Limit sub-questions and queries if needed
+    const subQuestions = limitPlan(plan.subQuestions, maxSubQuestions, totalQueries);
+    const queries = subQuestions.flatMap(subQuestion => subQuestion.queries);
+    logger.info(`Generated ${subQuestions.length} sub-questions and ${queries.length} queries.`, { subQuestions });
+    return { subQuestions, queries };
   } catch (error) {
-    console.error("Failed to parse JSON response for queries:", error);
-    // Fallback: Extract manually from the original plan text
-    const extractedQueries = extractQueriesFromPlanText(plan, maxQueries);
-    console.log(`Extracted ${extractedQueries.length} queries manually from plan text (fallback 2).`);
-    // Ensure we return at least one query if extraction fails
-    return extractedQueries.length > 0 ? extractedQueries : [`${topic} impact and applications`];
+    if (!(error instanceof StructuredOutputError)) throw error;
+    logger.warn(`${error.message}. Extracting queries from the plan text.`);
+
+    // Fallback: extract the queries from the last reply, or search the topic itself,
+    // researched as a single question
+    const extractedQueries = extractQueriesFromPlanText(error.lastText, totalQueries);
+    if (extractedQueries.length > 0) {
+      return {
+        subQuestions: [{ question: topic, queries: extractedQueries }],
+        queries: extractedQueries,
+        fallback: { reason: error.message, action: `extracted ${extractedQueries.length} queries from the plan text` },
+      };
+    }
+    return {
+      subQuestions: [{ question: topic, queries: [topic] }],
+      queries: [topic],
+      fallback: { reason: error.message, action: "searching the topic itself" },
+    };
+  }
+}
+
+// Keep the first maxSubQuestions sub-questions and maxQueries queries in total, taken from each
+// sub-question in turn so that every one that is kept has a query (0 means no limit)
+export function limitPlan(subQuestions: PlannedQuestion[], maxSubQuestions: number, maxQueries: number): PlannedQuestion[] {
+  let kept = maxSubQuestions > 0 ? subQuestions.slice(0, maxSubQuestions) : subQuestions;
+  if (maxQueries <= 0) return kept;
+
+  kept = kept.slice(0, maxQueries);
+  const queries: string[][] = kept.map(() => []);
+  for (let round = 0, taken = 0; taken < maxQueries; round++) {
+    const before = taken;
+    kept.forEach((subQuestion, i) => {
+      if (taken < maxQueries && round < subQuestion.queries.length) {
+        queries[i].push(subQuestion.queries[round]);
+        taken++;
+      }
+    });
+    if (taken === before) break; // Every query is taken
   }
+  return kept.map((subQuestion, i) => ({ ...subQuestion, queries: queries[i] }));
 }
 
 // Helper function to extract queries from the plan text
-function extractQueriesFromPlanText(plan: string, maxQueries: number): string[] {
+export function extractQueriesFromPlanText(plan: string, maxQueries: number): string[] {
     // Try extracting quoted strings first, as they are likely queries
     let queries = plan.match(/"([^"]+)"/g)?.map(q => q.replace(/"/g, '')) || [];
 
@@ -0,0 +1,85 @@
+import { SearchResult } from '../models/search';
+import { PlannedQuestion } from '../models/plan';
+import { PlanReview, SourceReview } from '../models/review';
+import { logger } from '../utils/logger';
+
+// Apply the reviewer's query list; an empty answer keeps the planned queries
+export function applyPlanReview(queries: string[], review: PlanReview | undefined): string[] {
+  const reviewed = (review?.queries || []).map(query => query.trim()).filter(query => query.length > 0);
+  if (reviewed.length === 0) {
+    logger.warn("Plan review returned no queries. Keeping the planned queries.");
+    return queries;
+  }
+  logger.info(`Plan reviewed: ${reviewed.length} queries to search.`);
+  return Array.from(new Set(reviewed));
+}
+
+// Apply the reviewer's answer to the sub-questions of the plan. Sub-questions in the answer replace
+// the planned ones; a query list keeps each remaining query with its sub-question. A new query in the
+// place of a planned one that is gone (its edit) takes that query's sub-question; the other new
+// queries were added by the reviewer and are researched under the topic itself.
+export function applySubQuestionReview(
+  topic: string,
+  subQuestions: PlannedQuestion[],
+  review: PlanReview | undefined
+): PlannedQuestion[] {
+  const reviewed = (review?.subQuestions || [])
+    .map(({ question, queries }) => ({
+      question: question.trim(),
+      queries: Array.from(new Set(queries.map(query => query.trim()).filter(query => query.length > 0))),
+    }))
+    .filter(({ question, queries }) => question.length > 0 && queries.length > 0);
+  if (reviewed.length > 0) {
+    logger.info(`Plan reviewed: ${reviewed.length} sub-questions to research.`);
+    return reviewed;
+  }
+
+  const planned = subQuestions.flatMap(subQuestion => subQuestion.queries);
+  const queries = applyPlanReview(planned, review);
+  const answer = (review?.queries || []).map(query => query.trim());
+  const edits = new Map<string, number>(); // Edited query -> index of its sub-question
+  const added: string[] = [];
+  for (const query of queries.filter(query => !planned.includes(query))) {
+    const replaced = planned[answer.indexOf(query)];
+    if (replaced !== undefined && !queries.includes(replaced)) {
+      edits.set(query, subQuestions.findIndex(subQuestion => subQuestion.queries.includes(replaced)));
+    } else {
+      added.push(query);
+    }
+  }
+
+  const kept = subQuestions
+    .map((subQuestion, i) => ({
+      ...subQuestion,
+      queries: queries.filter(query => subQuestion.queries.includes(query) || edits.get(query) === i),
+    }))
+    .filter(subQuestion => subQuestion.queries.length > 0);
+  return added.length > 0 ? [...kept, { question: topic, queries: added }] : kept;
+}
+
+// Apply pinned and excluded URLs to the selected sources. Pinned sources come first,
+// taken from every source found; excluded sources are removed even if pinned.
+export function applySourceReview(
+  sources: SearchResult[],
+  candidates: SearchResult[],
+  review: SourceReview | undefined
+): SearchResult[] {
+  const excluded = new Set(review?.exclude || []);
+  const pinned: SearchResult[] = [];
+
+  for (const url of review?.pin || []) {
+    if (excluded.has(url) || pinned.some(source => source.link === url)) continue;
+    const source = candidates.find(candidate => candidate.link === url) || sources.find(s => s.link === url);
+    if (source) {
+      pinned.push(source);
+    } else {
+      logger.warn(`Pinned source not found among the search results: ${url}`);
+    }
+  }
+
+  const pinnedUrls = new Set(pinned.map(source => source.link));
+  const kept = sources.filter(source => !excluded.has(source.link) && !pinnedUrls.has(source.link));
+  const excludedCount = sources.filter(source => excluded.has(source.link)).length;
+  logger.info(`Sources reviewed: ${pinned.length} pinned, ${excludedCount} excluded.`);
+  return [...pinned, ...kept];
+}
@@ -1,91 +1,176 @@
-import { TavilySearch } from "@langchain/tavily";
-import { gemini, prompts, models } from '../utils/gemini';
+import { prompts } from '../utils/prompts';
+import { LLMProvider, getDefaultLLMProvider } from '../providers/llm';
+import { SearchDepth, SearchFilters, SearchProvider, getDefaultSearchProvider } from '../providers/search';
 import { SearchResult, SearchResults } from '../models/search';
+import { Limiter, createLimiter } from '../utils/concurrency';
+import { FileCache, hashKey } from '../utils/cache';
+import { selectChunks, splitIntoChunks } from '../utils/chunks';
+import { detectLanguage, summaryLanguageInstruction } from '../utils/language';
+import { logger } from '../utils/logger';
 
-// Simple search function that uses Tavily search API
-export async function search(query: string): Promise<SearchResults> {
-  console.log(`Searching for: ${query}`);
+// Search function that delegates to the configured search provider(s)
+export async function search(
+  query: string,
+  maxResults: number = 5,
+  provider: SearchProvider = getDefaultSearchProvider(),
+  searchDepth: SearchDepth = "basic",
+  filters: SearchFilters = {} // From the source policy (see searchFilters)
+): Promise<SearchResults> {
+  logger.info(`Searching for: ${query}`);
   
   try {
-    // Using the new TavilySearch class
-    const searchTool = new TavilySearch({
-      maxResults: 5,
-      includeRawContent: true,
-      searchDepth: "basic"
-    });
-    
-    // Use the search method
-    const searchResponse = await searchTool.invoke({
-      query: query,
-    });
-    
-    const results: SearchResult[] = [];
-    // Process search results
-    for (const result of searchResponse.results || []) {
-      const title = result.title || 'No Title Provided';
-      const link = result.url || 'No Link Provided';
-      const content = result.content || '';
-            
-      results.push({
-        title: title,
-        link: link,
-        content: content,
-      });
-    }
-    
-    // Limit to 5 results
-    return new SearchResults(results.slice(0, 5));
+    const results = await provider.search(query, { maxResults, searchDepth, ...filters });
+    // Tag every result with the provider it came from
+    return new SearchResults(results.map(result => ({
+      ...result,
+      origin: result.origin || provider.name,
+    })));
   } catch (error) {
-    console.error(`Search error for query "${query}":`, error);
+    logger.error(`Search error for query "${query}"`, { error });
     return new SearchResults([]);
   }
 }
 
-// Summarize content using Gemini - using basic model as this is high-volume, simpler task
-export async function summarizeContent(content: string, query: string): Promise<string> {
-  console.log('Summarizing content...');
+// Summarize content - using the summarizer model as this is high-volume, simpler task
+export async function summarizeContent(
+  content: string,
+  query: string,
+  llm: LLMProvider = getDefaultLLMProvider(),
+  temperature: number = 0.1, // Lower temperature for factual summarization
+  language?: string // Language to write the summary in
+): Promise<string> {
+  logger.debug('Summarizing content...');
   
   try {
-    const model = gemini.getGenerativeModel({ 
-      model: models.basic,
-      generationConfig: {
-        temperature: 0.1, // Lower temperature for factual summarization
-        maxOutputTokens: 1024,
-      }
-    });
-    const response = await model.generateContent({
-      contents: [{ 
-        role: "user", 
-        parts: [{ 
-          text: `${prompts.summarizePrompt}\n\n<Raw Content>${content}</Raw Content>\n\n<Research Topic>${query}</Research Topic>` 
-        }] 
-      }],
+    const response = await llm.generate({
+      role: "summarizer",
+      prompt: `${prompts.summarizePrompt}${languageLine(language)}\n\n<Raw Content>${content}</Raw Content>\n\n<Research Topic>${query}</Research Topic>`,
+      temperature,
+      maxOutputTokens: 1024,
     });
     
-    return response.response.text();
+    return response.text;
   } catch (error) {
-    console.error('Summarization error:', error);
+    logger.error('Summarization error', { error });
     return '';
   }
 }
 
-// Process search results by summarizing their content
-export async function processSearchResults(results: SearchResults, query: string): Promise<SearchResults> {
-  console.log('Processing search results...');
-  
-  const processedResults: SearchResult[] = [];
+function languageLine(language?: string): string {
+  return language ? `\n\n${summaryLanguageInstruction(language)}` : "";
+}
+
+// Merge the summaries of parts of one document into one
+async function combineSummaries(
+  summaries: string[],
+  query: string,
+  llm: LLMProvider,
+  temperature: number,
+  language?: string
+): Promise<string> {
+  try {
+    const parts = summaries.map((summary, i) => `<Summary ${i + 1}>\n${summary}\n</Summary ${i + 1}>`);
+    const response = await llm.generate({
+      role: "summarizer",
+      prompt: `${prompts.combinePrompt}${languageLine(language)}\n\n${parts.join("\n\n")}\n\n<Research Topic>${query}</Research Topic>`,
+      temperature,
+      maxOutputTokens: 1024,
+    });
+    return response.text;
+  } catch (error) {
+    // The partial summaries still hold what the document says
+    logger.error('Combining summaries failed', { error });
+    return summaries.join("\n\n");
+  }
+}
+
+export interface SummaryOptions {
+  chunkTokens?: number; // Documents longer than this are split into chunks of at most this size
+  maxChunks?: number; // Chunks summarized per document, the most relevant to the query
+  temperature?: number;
+  language?: string; // Language of the summaries, whatever the language of the document
+  limiter?: Limiter; // Every summarizer call (of a chunk, or combining them) runs through it
+}
+
+// Summarize a whole document. Short ones take one call; long ones are summarized map-reduce style:
+// the chunks most relevant to the query are summarized one by one, then the summaries are combined.
+export async function summarizeDocument(
+  content: string,
+  query: string,
+  llm: LLMProvider = getDefaultLLMProvider(),
+  { chunkTokens = 2000, maxChunks = 4, temperature = 0.1, language, limiter = task => task() }: SummaryOptions = {}
+): Promise<string> {
+  const chunks = splitIntoChunks(content, chunkTokens);
+  if (chunks.length <= 1) return limiter(() => summarizeContent(content, query, llm, temperature, language));
+
+  const selected = selectChunks(chunks, query, maxChunks);
+  logger.debug(`Summarizing ${selected.length} of ${chunks.length} chunks...`, { query });
+  const summaries = (await Promise.all(selected.map(chunk =>
+    limiter(() => summarizeContent(chunk, query, llm, temperature, language)))))
+    .filter(summary => summary);
+  if (summaries.length <= 1) return summaries[0] || '';
+  return limiter(() => combineSummaries(summaries, query, llm, temperature, language));
+}
+
+export interface ProcessOptions {
+  // Summarizer calls in flight; pass a shared limiter to bound them across several queries (and branches)
+  concurrency?: number | Limiter;
+  cache?: FileCache; // Reuse summaries of pages already processed for the same query
+  onSummarized?: (result: SearchResult, cached: boolean) => void; // Called as each summary is ready
+  temperature?: number; // Of the summarizer
+  chunkTokens?: number; // See SummaryOptions
+  maxChunks?: number;
+  language?: string;
+}
+
+// Characters of a page its language is detected from
+const languageSampleLength = 2000;
+
+// Process search results by summarizing their content. The limit applies to each summarizer call
+// rather than to each page, as a long page takes several.
+export async function processSearchResults(
+  results: SearchResults,
+  query: string,
+  llm: LLMProvider = getDefaultLLMProvider(),
+  { concurrency = 5, cache, onSummarized, temperature, chunkTokens, maxChunks, language }: ProcessOptions = {}
+): Promise<SearchResults> {
+  logger.debug('Processing search results...', { query });
+  const limiter = typeof concurrency === "number" ? createLimiter(concurrency) : concurrency;
   
-  for (const result of results.results) {
-    if (result.content) {
-      const summary = await summarizeContent(result.content, query);
-      processedResults.push({
-        ...result,
-        filteredContent: summary
-      });
-    } else {
-      processedResults.push(result);
+  const processedResults = await Promise.all(results.results.map(async result => {
+    // The full page when the provider returned it, else the snippet
+    const text = result.rawContent || result.content;
+    if (!text) return result;
+    // The page keeps its own language; only its summary is in the report's
+    const source = { ...result, language: result.language ?? detectLanguage(text.substring(0, languageSampleLength)) };
+
+    try {
+      // Summaries are keyed by URL, content hash, summarization query, model, chunking and language
+      const key = {
+        url: result.link,
+        contentHash: hashKey(text),
+        query,
+        model: llm.modelFor("summarizer"),
+        chunkTokens,
+        maxChunks,
+        language,
+      };
+      const cached = cache ? await cache.get<string>("summary", key) : undefined;
+      if (cached) {
+        onSummarized?.(source, true);
+        return { ...source, filteredContent: cached };
+      }
+
+      const summary = await summarizeDocument(text, query, llm, { chunkTokens, maxChunks, temperature, language, limiter });
+      if (cache && summary) await cache.set("summary", key, summary);
+      onSummarized?.(source, false);
+      return { ...source, filteredContent: summary };
+    } catch (error) {
+      // Keep the result with its raw content rather than dropping it
+      logger.error(`Failed to summarize ${result.link}`, { error });
+      return source;
     }
-  }
+  }));
   
   return new SearchResults(processedResults);
 }
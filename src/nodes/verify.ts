@@ -0,0 +1,168 @@
+import { prompts } from '../utils/prompts';
+import { generateStructured } from '../utils/structured';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { citationGroup, citationMarkers, reportBody } from '../utils/citations';
+import { LLMProvider, getDefaultLLMProvider } from '../providers/llm';
+import { SearchResult, SearchResults } from '../models/search';
+import { Citation, Report, citationChecksSchema } from '../models/report';
+import { Fallback } from '../models/fallback';
+import { reportLanguageInstruction } from '../utils/language';
+import { splitSections } from './write';
+import { logger } from '../utils/logger';
+
+// How the citation check treats problems: flag them in the report, ask the writer to revise
+// the sentences first (and flag what remains), or skip the check
+export type CitationMode = "flag" | "revise" | "off";
+
+export const citationModes: CitationMode[] = ["flag", "revise", "off"];
+
+const claimsPerBatch = 10;
+const excerptLength = 1500;
+
+// Find every [Ref. n] marker of the report body, by sentence, and map it to its source
+export function extractCitations(report: Report): Citation[] {
+  // Entries of the references section are not claims
+  const citations: Citation[] = [];
+  let lineStart = 0;
+  for (const line of reportBody(report.content).split("\n")) {
+    // Sentences end at . ! or ?, except for the period of "Ref."
+    let sentenceStart = 0;
+    for (const sentence of /^\s*#/.test(line) ? [] : line.split(/(?<=[.!?])(?<!Ref\.)\s+/i)) {
+      sentenceStart = line.indexOf(sentence, sentenceStart);
+      const offset = lineStart + sentenceStart + sentence.trimEnd().length;
+      sentenceStart += sentence.length;
+
+      const markers = new Set<number>();
+      for (const group of sentence.match(citationGroup) || []) {
+        citationMarkers(group).forEach(marker => markers.add(marker));
+      }
+
+      for (const marker of markers) {
+        const source = report.sources[marker - 1];
+        citations.push(source
+          ? { marker, sentence: sentence.trim(), offset, source, status: "unverified" }
+          : { marker, sentence: sentence.trim(), offset, status: "dangling", reason: `the report has no source ${marker}` });
+      }
+    }
+    lineStart += line.length + 1;
+  }
+  return citations;
+}
+
+// Ask the verifier whether each cited source supports its sentence, in batches of claims.
+// Citations of a batch whose check fails stay unverified.
+export async function verifyCitations(
+  citations: Citation[],
+  llm: LLMProvider = getDefaultLLMProvider(),
+  concurrency: number = 4,
+  temperature: number = 0.1
+): Promise<{ citations: Citation[]; fallback?: Fallback }> {
+  // Only citations that point to a source can be checked
+  const pending = citations.filter((citation): citation is Citation & { source: SearchResult } =>
+    citation.status === "unverified" && citation.source !== undefined);
+  logger.info(`Verifying ${pending.length} citations...`);
+
+  const batches: Array<typeof pending> = [];
+  for (let i = 0; i < pending.length; i += claimsPerBatch) {
+    batches.push(pending.slice(i, i + claimsPerBatch));
+  }
+
+  const verdicts = new Map<Citation, Pick<Citation, "status" | "reason">>();
+  const failures: string[] = [];
+  await mapWithConcurrency(batches, concurrency, async batch => {
+    const claims = batch.map(({ sentence, source }, i) => {
+      const excerpt = (source.filteredContent || source.rawContent || source.content).substring(0, excerptLength);
+      return `<Claim ${i + 1}>\nSentence: ${sentence}\nCited source: ${source.title} (${source.link})\nExcerpt: ${excerpt}\n</Claim ${i + 1}>`;
+    });
+
+    try {
+      const { checks } = await generateStructured(llm, {
+        role: "verifier",
+        prompt: `${prompts.verificationPrompt}\n\n${claims.join("\n\n")}`,
+        temperature,
+        schema: citationChecksSchema,
+      });
+      for (const check of checks) {
+        const citation = batch[check.claim - 1];
+        if (!citation) continue;
+        verdicts.set(citation, check.supported
+          ? { status: "supported" }
+          : { status: "unsupported", reason: check.reason || "the cited source does not support this sentence" });
+      }
+    } catch (error) {
+      logger.error("Citation check failed", { error });
+      failures.push((error as Error).message);
+    }
+  });
+
+  const checked = citations.map(citation => ({ ...citation, ...verdicts.get(citation) }));
+  const unverified = checked.filter(citation => citation.status === "unverified").length;
+  logger.info(`Citations: ${checked.filter(c => c.status === "supported").length} supported, `
+    + `${checked.filter(c => c.status === "unsupported").length} unsupported, `
+    + `${checked.filter(c => c.status === "dangling").length} dangling, ${unverified} unverified.`);
+
+  return {
+    citations: checked,
+    ...(failures.length > 0
+      ? { fallback: { reason: failures[0], action: `left ${unverified} citations unverified` } }
+      : {}),
+  };
+}
+
+// Citations that point to no source or to a source that does not back the sentence
+export function problemCitations(citations: Citation[]): Citation[] {
+  return citations.filter(citation => citation.status === "unsupported" || citation.status === "dangling");
+}
+
+// Mark each problem sentence in the report text, where it ends, with what is wrong with its citations
+export function flagCitations(content: string, citations: Citation[]): string {
+  const notesByOffset = new Map<number, string[]>();
+  for (const citation of problemCitations(citations)) {
+    const notes = notesByOffset.get(citation.offset) || [];
+    notes.push(citation.status === "dangling"
+      ? `[Ref. ${citation.marker}] does not exist`
+      : `[Ref. ${citation.marker}] does not support this`);
+    notesByOffset.set(citation.offset, notes);
+  }
+
+  // From the end of the text, so that earlier offsets still hold
+  let flagged = content;
+  for (const [offset, notes] of Array.from(notesByOffset).sort(([a], [b]) => b - a)) {
+    flagged = `${flagged.slice(0, offset)} *(citation check: ${notes.join("; ")})*${flagged.slice(offset)}`;
+  }
+  return flagged;
+}
+
+// Ask the writer to rewrite the sentences whose citations failed the check
+export async function reviseReport(
+  report: Report,
+  problems: Citation[],
+  maxTokens: number = 8192,
+  llm: LLMProvider = getDefaultLLMProvider(),
+  temperature: number = 0.3,
+  contextTokens?: number // Tokens the sources may take in the prompt
+): Promise<Report> {
+  logger.info(`Revising ${new Set(problems.map(p => p.sentence)).size} sentences with unsupported citations...`);
+
+  const issues = problems.map(citation => `- "${citation.sentence}": [Ref. ${citation.marker}] ${citation.reason}`);
+  const response = await llm.generate({
+    role: "writer",
+    prompt: `${prompts.revisionPrompt}\n\n${report.language ? `${reportLanguageInstruction(report.language)}\n\n` : ""}Sentences to revise:\n${issues.join("\n")}\n\n`
+      + `Sources:\n${new SearchResults(report.sources).toString(contextTokens)}\n\nReport:\n${report.content}`,
+    temperature,
+    maxOutputTokens: maxTokens,
+  });
+
+  const titleMatch = response.text.match(/^#\s+(.*?)$/m);
+  // The sections follow the revision, so that rewriting one later keeps the other fixes;
+  // a revision that changed the sections leaves none to rewrite
+  const { sections: written, ...rest } = report;
+  const sections = written && splitSections(response.text, written);
+  if (written && !sections) logger.warn("The revised report no longer has the sections of the outline.");
+  return {
+    ...rest,
+    title: titleMatch ? titleMatch[1] : report.title,
+    content: response.text,
+    ...(sections ? { sections } : {}),
+  };
+}
@@ -1,33 +1,41 @@
-import { gemini, prompts, models } from '../utils/gemini';
-import { SearchResults } from '../models/search';
-import { Report } from '../models/report';
+import { prompts } from '../utils/prompts';
+import { generateStructured } from '../utils/structured';
+import { truncateToTokens } from '../utils/chunks';
+import { citationOrder, renumberCitations, reportBody } from '../utils/citations';
+import { renderMarkdown } from '../export/markdown';
+import { LLMProvider, getDefaultLLMProvider } from '../providers/llm';
+import { SearchResult, SearchResults } from '../models/search';
+import { Report, ReportOutline, ReportSection, reportOutlineSchema } from '../models/report';
+import { Fallback } from '../models/fallback';
+import { reportHeadings, reportLanguageInstruction } from '../utils/language';
+import { logger } from '../utils/logger';
 
 export async function generateReport(
   topic: string, 
   results: SearchResults, 
-  maxTokens: number = 8192
+  maxTokens: number = 8192,
+  llm: LLMProvider = getDefaultLLMProvider(),
+  reportPrompt: string = prompts.reportPrompt,
+  notes?: string,
+  onToken?: (text: string) => void,
+  temperature: number = 0.6,
+  contextTokens?: number, // Tokens the sources may take in the prompt
+  language?: string // Language to write the report in
 ): Promise<Report> {
-  console.log('Generating final research report...');
+  logger.info('Generating final research report...');
   
-  // Using premium model for the most complex, reasoning-intensive task
-  const model = gemini.getGenerativeModel({ 
-    model: models.premiumPlus,
-    generationConfig: {
-      temperature: 0.6,
-      maxOutputTokens: maxTokens,
-    }
+  // Using the writer model for the most complex, reasoning-intensive task
+  const response = await llm.generate({
+    role: "writer",
+    prompt: `${reportPrompt}\n\n${languageBlock(language)}Research Topic: ${topic}\n\n`
+      + (notes ? `Reviewer Notes (follow them when writing):\n${notes}\n\n` : "")
+      + `Search Results:\n${results.toString(contextTokens)}`,
+    temperature,
+    maxOutputTokens: maxTokens,
+    onToken,
   });
   
-  const response = await model.generateContent({
-    contents: [{ 
-      role: "user", 
-      parts: [{ 
-        text: `${prompts.reportPrompt}\n\nResearch Topic: ${topic}\n\nSearch Results:\n${results.toString()}` 
-      }] 
-    }],
-  });
-  
-  const report = response.response.text();
+  const report = response.text;
   
   // Extract title from the report
   const titleMatch = report.match(/^#\s+(.*?)$/m);
@@ -35,6 +43,193 @@ export async function generateReport(
   
   return {
     title,
-    content: report
+    content: report,
+    sources: results.results,
+    ...(language ? { language } : {}),
   };
 }
+
+export interface SectionWritingOptions {
+  maxTokens?: number; // Output tokens of each call
+  contextTokens?: number; // Tokens the sources (or the report body) may take in each prompt
+  notes?: string; // Reviewer notes for the writer
+  onToken?: (text: string) => void; // Receives the text of every section as it is written
+  temperature?: number;
+  language?: string; // Language to write the report in
+}
+
+// Drop a heading the model wrote at the top of a section despite the prompt
+function sectionText(text: string): string {
+  return text.replace(/^\s*#+[^\n]*\n+/, "").trim();
+}
+
+function notesBlock(notes?: string): string {
+  return notes ? `Reviewer Notes (follow them when writing):\n${notes}\n\n` : "";
+}
+
+function languageBlock(language?: string): string {
+  return language ? `${reportLanguageInstruction(language)}\n\n` : "";
+}
+
+// Ask for the title and body sections of the report, with the sources of each section.
+// Source numbers that do not exist are dropped, and so are the sections left without sources.
+export async function generateOutline(
+  topic: string,
+  results: SearchResults,
+  llm: LLMProvider = getDefaultLLMProvider(),
+  { contextTokens, notes, temperature = 0.6, language }: SectionWritingOptions = {}
+): Promise<ReportOutline> {
+  logger.info('Generating the report outline...');
+  const outline = await generateStructured(llm, {
+    role: "writer",
+    prompt: `${prompts.outlinePrompt}\n\n${languageBlock(language)}Research Topic: ${topic}\n\n${notesBlock(notes)}`
+      + `Search Results:\n${results.toString(contextTokens)}`,
+    temperature,
+    schema: reportOutlineSchema,
+  });
+
+  const sections = outline.sections
+    .map(section => ({
+      ...section,
+      sources: Array.from(new Set(section.sources.filter(n => n >= 1 && n <= results.results.length))),
+    }))
+    .filter(section => section.sources.length > 0);
+  if (sections.length === 0) throw new Error("the outline assigns no existing source to any section");
+  return { title: outline.title, sections };
+}
+
+// Write one section: a body section from its own sources, the introduction or conclusion
+// from the body sections already written
+export async function writeSection(
+  topic: string,
+  section: ReportSection,
+  sections: ReportSection[],
+  sources: SearchResult[],
+  llm: LLMProvider = getDefaultLLMProvider(),
+  { maxTokens = 8192, contextTokens, notes, onToken, temperature = 0.6, language }: SectionWritingOptions = {}
+): Promise<string> {
+  logger.info(`Writing section "${section.heading}"...`);
+
+  let prompt: string;
+  if (section.kind === "body") {
+    const outline = sections
+      .filter(other => other.kind === "body")
+      .map(other => `- ${other.heading}: ${other.description || ""}`)
+      .join("\n");
+    const assigned = new SearchResults(section.sources.map(n => sources[n - 1]).filter(source => source));
+    prompt = `${prompts.sectionPrompt}\n\n${languageBlock(language)}Research Topic: ${topic}\n\n${notesBlock(notes)}`
+      + `Report Outline:\n${outline}\n\nSection: ${section.heading}\nIt must cover: ${section.description || section.heading}\n\n`
+      + `Sources:\n${assigned.toString(contextTokens, section.sources)}`;
+  } else {
+    const body = sections
+      .filter(other => other.kind === "body")
+      .map(other => `## ${other.heading}\n\n${other.content}`)
+      .join("\n\n");
+    prompt = `${section.kind === "introduction" ? prompts.introductionPrompt : prompts.conclusionPrompt}\n\n`
+      + `${languageBlock(language)}Research Topic: ${topic}\n\n${notesBlock(notes)}`
+      + `Report:\n${contextTokens ? truncateToTokens(body, contextTokens) : body}`;
+  }
+
+  const response = await llm.generate({ role: "writer", prompt, temperature, maxOutputTokens: maxTokens, onToken });
+  return sectionText(response.text);
+}
+
+// Put the sections together under the title, renumbering the citations in the order they first
+// appear and listing the cited sources in a references section (headed in the report's language)
+export function assembleReport(title: string, sections: ReportSection[], sources: SearchResult[], language?: string): Report {
+  const order = citationOrder(sections.map(section => section.content), sources.length);
+  const numbers = new Map(order.map((number, i) => [number, i + 1]));
+  const renumbered = sections.map(section => ({
+    ...section,
+    sources: section.sources.map(n => numbers.get(n) ?? n).sort((a, b) => a - b),
+    content: renumberCitations(section.content, numbers),
+  }));
+  const ordered = order.map(number => sources[number - 1]);
+
+  const body = renumbered.map(section => `## ${section.heading}\n\n${section.content}`).join("\n\n");
+  const report: Report = {
+    title, content: `# ${title}\n\n${body}`, sources: ordered, sections: renumbered, ...(language ? { language } : {}),
+  };
+  // The same references section as the markdown export
+  return { ...report, content: renderMarkdown(report).trimEnd() };
+}
+
+// Sections of a report text rewritten as a whole (e.g. revised), with the contents of the text;
+// undefined when the text no longer has the same sections under the same headings
+export function splitSections(content: string, sections: ReportSection[]): ReportSection[] | undefined {
+  const parts = reportBody(content).split(/^##[ \t]+(.*)$/m);
+  const written = Array.from({ length: (parts.length - 1) / 2 }, (_, i) =>
+    ({ heading: parts[2 * i + 1].trim(), content: parts[2 * i + 2].trim() }));
+  if (written.length !== sections.length || written.some(({ heading }, i) => heading !== sections[i].heading)) {
+    return undefined;
+  }
+  return sections.map((section, i) => ({ ...section, content: written[i].content }));
+}
+
+// Write the report section by section: outline, body sections from their own sources, then
+// introduction and conclusion. Without a usable outline, the report is written in one call.
+export async function generateSectionedReport(
+  topic: string,
+  results: SearchResults,
+  llm: LLMProvider = getDefaultLLMProvider(),
+  options: SectionWritingOptions = {}
+): Promise<{ report: Report; fallback?: Fallback }> {
+  let outline: ReportOutline;
+  try {
+    outline = await generateOutline(topic, results, llm, options);
+  } catch (error) {
+    logger.error("Outline generation failed. Writing the report in a single call.", { error });
+    const report = await generateReport(topic, results, options.maxTokens, llm, undefined,
+      options.notes, options.onToken, options.temperature, options.contextTokens, options.language);
+    return { report, fallback: { reason: (error as Error).message, action: "wrote the report in a single call" } };
+  }
+
+  const sections: ReportSection[] = outline.sections.map(section => ({ kind: "body", ...section, content: "" }));
+  // Sections are written one at a time and streamed under their headings, in the order they are
+  // written: the body first, then the introduction and the conclusion
+  const write = async (section: ReportSection) => {
+    options.onToken?.(`## ${section.heading}\n\n`);
+    section.content = await writeSection(topic, section, sections, results.results, llm, options);
+    options.onToken?.("\n\n");
+  };
+  options.onToken?.(`# ${outline.title}\n\n`);
+  for (const section of sections) {
+    await write(section);
+  }
+  const headings = reportHeadings(options.language);
+  const introduction: ReportSection = { kind: "introduction", heading: headings.introduction, sources: [], content: "" };
+  const conclusion: ReportSection = { kind: "conclusion", heading: headings.conclusion, sources: [], content: "" };
+  await write(introduction);
+  await write(conclusion);
+  sections.unshift(introduction);
+  sections.push(conclusion);
+
+  return { report: assembleReport(outline.title, sections, results.results, options.language) };
+}
+
+// Rewrite some sections of a report written section by section (numbers from 1, in report order)
+// and assemble it again; the other sections are kept as they are
+export async function regenerateSections(
+  topic: string,
+  report: Report,
+  numbers: number[],
+  llm: LLMProvider = getDefaultLLMProvider(),
+  options: SectionWritingOptions = {}
+): Promise<Report> {
+  if (!report.sections) throw new Error("The report was not written section by section");
+  const invalid = numbers.filter(n => !Number.isInteger(n) || n < 1 || n > report.sections!.length);
+  if (invalid.length > 0) {
+    throw new Error(`The report has no section ${invalid.join(", ")} (it has ${report.sections.length})`);
+  }
+
+  const sections = report.sections.map(section => ({ ...section }));
+  // Body sections first: the introduction and conclusion are written from them
+  const rewrite = Array.from(new Set(numbers)).map(n => sections[n - 1])
+    .sort((a, b) => Number(a.kind !== "body") - Number(b.kind !== "body"));
+  // Rewritten sections keep the language of the report
+  const language = report.language ?? options.language;
+  for (const section of rewrite) {
+    section.content = await writeSection(topic, section, sections, report.sources, llm, { ...options, language });
+  }
+  return assembleReport(report.title, sections, report.sources, language);
+}
@@ -0,0 +1,148 @@
+import { createHash } from "crypto";
+import { promises as fs, existsSync } from "fs";
+import path from "path";
+import { LLMProvider, ModelRole, GenerateRequest, GenerateResponse } from './llm';
+import { SearchProvider, SearchOptions } from './search';
+import { SearchResult } from '../models/search';
+
+export type CassetteMode = "record" | "replay";
+
+// A recorded call outcome: either the response or the error message it failed with
+type Recording<T> = { response: T } | { error: string };
+
+interface CassetteEntry {
+  kind: "llm" | "search";
+  request: unknown; // Kept readable to help debug a recorded run
+  recordings: Recording<unknown>[];
+}
+
+interface CassetteFile {
+  version: 1;
+  entries: Record<string, CassetteEntry>;
+}
+
+// Thrown in replay mode when a call was never recorded
+export class CassetteMissError extends Error {
+  constructor(public key: string, request: unknown) {
+    super(`No cassette recording for request ${key}: ${JSON.stringify(request).substring(0, 200)}`);
+    this.name = "CassetteMissError";
+  }
+}
+
+// Hash of a request's identifying fields; the key of a cassette entry
+export function cassetteKey(kind: CassetteEntry["kind"], request: unknown): string {
+  return createHash("sha256").update(JSON.stringify({ kind, request })).digest("hex");
+}
+
+// A file of request/response pairs. Identical requests are recorded in call order and
+// replayed in the same order, the last recording repeating once they run out.
+export class Cassette {
+  readonly misses: string[] = [];
+  private positions = new Map<string, number>();
+  private saving: Promise<void> = Promise.resolve();
+
+  private constructor(readonly filePath: string, readonly mode: CassetteMode, private data: CassetteFile) {}
+
+  static async open(filePath: string, mode: CassetteMode): Promise<Cassette> {
+    if (mode === "replay" && !existsSync(filePath)) {
+      throw new Error(`Cassette file not found: ${filePath}`);
+    }
+
+    // Recording starts a fresh cassette; replaying loads the recorded one
+    const data: CassetteFile = mode === "replay"
+      ? JSON.parse(await fs.readFile(filePath, "utf8"))
+      : { version: 1, entries: {} };
+    return new Cassette(filePath, mode, data);
+  }
+
+  get size(): number {
+    return Object.keys(this.data.entries).length;
+  }
+
+  // Run a call through the cassette: recorded in record mode, answered from the file in replay mode
+  async run<T>(kind: CassetteEntry["kind"], request: unknown, call: () => Promise<T>): Promise<T> {
+    const key = cassetteKey(kind, request);
+
+    if (this.mode === "replay") {
+      const entry = this.data.entries[key];
+      if (!entry || entry.recordings.length === 0) {
+        this.misses.push(key);
+        throw new CassetteMissError(key, request);
+      }
+
+      const position = this.positions.get(key) ?? 0;
+      this.positions.set(key, position + 1);
+      const recording = entry.recordings[Math.min(position, entry.recordings.length - 1)];
+      if ("error" in recording) throw new Error(recording.error);
+      return recording.response as T;
+    }
+
+    const entry = this.data.entries[key] ?? (this.data.entries[key] = { kind, request, recordings: [] });
+    try {
+      const response = await call();
+      entry.recordings.push({ response });
+      return response;
+    } catch (error) {
+      // Failures are recorded too so that replay takes the same fallback paths
+      entry.recordings.push({ error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      await this.save();
+    }
+  }
+
+  // Write the cassette after every recorded call so that a crashed run keeps what it paid for
+  save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(this.data, null, 2), "utf8");
+      await fs.rename(tempPath, this.filePath);
+    });
+    return this.saving;
+  }
+}
+
+// LLM provider that records or replays calls made to the wrapped provider
+export class CassetteLLMProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private inner: LLMProvider, private cassette: Cassette) {
+    this.name = inner.name;
+  }
+
+  modelFor(role: ModelRole): string {
+    return this.inner.modelFor(role);
+  }
+
+  generate(request: GenerateRequest): Promise<GenerateResponse> {
+    // The key covers the prompt, the resolved model and the generation parameters
+    const key = {
+      provider: this.inner.name,
+      model: request.model ?? this.inner.modelFor(request.role),
+      prompt: request.prompt,
+      temperature: request.temperature,
+      maxOutputTokens: request.maxOutputTokens,
+      responseSchema: request.responseSchema,
+    };
+    return this.cassette.run("llm", key, () => this.inner.generate(request)).then(response => {
+      // A replayed reply arrives in one piece
+      if (this.cassette.mode === "replay") request.onToken?.(response.text);
+      return response;
+    });
+  }
+}
+
+// Search provider that records or replays calls made to the wrapped provider
+export class CassetteSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(private inner: SearchProvider, private cassette: Cassette) {
+    this.name = inner.name;
+  }
+
+  search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    const key = { provider: this.inner.name, query, ...options };
+    return this.cassette.run("search", key, () => this.inner.search(query, options));
+  }
+}
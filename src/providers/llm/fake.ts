@@ -0,0 +1,50 @@
+import { LLMProvider, ModelRole, GenerateRequest, GenerateResponse } from './types';
+
+// A scripted reply: fixed text, a function of the request, or an error to throw
+export type ScriptedReply = string | Error | ((request: GenerateRequest) => string);
+
+// Replies per role, consumed in order; a role's last reply repeats once the list is exhausted
+export type Script = Partial<Record<ModelRole, ScriptedReply | ScriptedReply[]>>;
+
+// Deterministic provider for tests: answers from a script and records every call
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name = "fake";
+  readonly calls: GenerateRequest[] = [];
+  private positions: Partial<Record<ModelRole, number>> = {};
+
+  constructor(private script: Script = {}) {}
+
+  modelFor(role: ModelRole): string {
+    return `fake-${role}`;
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    this.calls.push(request);
+
+    const entry = this.script[request.role];
+    if (entry === undefined) {
+      throw new Error(`No scripted reply for role "${request.role}"`);
+    }
+
+    let reply: ScriptedReply;
+    if (Array.isArray(entry)) {
+      if (entry.length === 0) throw new Error(`No scripted reply for role "${request.role}"`);
+      const position = this.positions[request.role] ?? 0;
+      reply = entry[Math.min(position, entry.length - 1)];
+      this.positions[request.role] = position + 1;
+    } else {
+      reply = entry;
+    }
+
+    if (reply instanceof Error) throw reply;
+    const text = typeof reply === "function" ? reply(request) : reply;
+    // Stream the reply word by word
+    for (const token of text.match(/\S+\s*|\s+/g) || []) request.onToken?.(token);
+    return { text, model: request.model ?? this.modelFor(request.role) };
+  }
+
+  // Calls made for a given role, in order
+  callsFor(role: ModelRole): GenerateRequest[] {
+    return this.calls.filter(call => call.role === role);
+  }
+}
@@ -0,0 +1,116 @@
+import { GoogleGenerativeAI, ResponseSchema, UsageMetadata } from '@google/generative-ai';
+import { LLMProvider, ModelRole, ModelLimits, ModelPrice, RoleModels, GenerateRequest, GenerateResponse, JsonSchema, TokenUsage } from './types';
+
+// Model configuration with rate limits
+export const models = {
+  // More than average reasoning, lower rate limit (5 requests/min - 25 requests/day)
+  premiumPlus: "gemini-2.5-pro-exp-03-25",
+
+  // Most capable, best reasoning, lowest rate limit (10 requests/min - 500 requests/day)
+  premium: "gemini-2.5-flash-preview-04-17",
+  
+  // Intermediate capability and rate limit (15 requests/min - 1500 requests/day)
+  standard: "gemini-2.0-flash",
+  
+  // Most limited capability, highest rate limit (30 requests/min - 1500 requests/day)
+  basic: "gemini-2.0-flash-lite"
+};
+
+// Free-tier rate limits per model, enforced by the ModelRouter
+export const modelLimits: Record<string, ModelLimits> = {
+  [models.premiumPlus]: { requestsPerMinute: 5, requestsPerDay: 25 },
+  [models.premium]: { requestsPerMinute: 10, requestsPerDay: 500 },
+  [models.standard]: { requestsPerMinute: 15, requestsPerDay: 1500 },
+  [models.basic]: { requestsPerMinute: 30, requestsPerDay: 1500 },
+};
+
+// Paid-tier prices per million tokens, used to estimate what a run costs (the free tier costs nothing)
+export const modelPrices: Record<string, ModelPrice> = {
+  [models.premiumPlus]: { input: 1.25, output: 10 },
+  [models.premium]: { input: 0.15, output: 0.6 },
+  [models.standard]: { input: 0.1, output: 0.4 },
+  [models.basic]: { input: 0.075, output: 0.3 },
+};
+
+// Models tried in turn when a model's quota runs out
+export const modelCascade = [models.premiumPlus, models.premium, models.standard];
+
+// Default model for each role, chosen by task complexity and rate limits
+export const defaultGeminiRoleModels: RoleModels = {
+  planner: models.premiumPlus,
+  summarizer: models.basic,
+  evaluator: models.premium,
+  filter: models.standard,
+  verifier: models.standard,
+  writer: models.premiumPlus,
+};
+
+// Gemini accepts a subset of OpenAPI schemas: keep only the keywords it understands
+export function toGeminiSchema(schema: JsonSchema): ResponseSchema {
+  const converted: Record<string, unknown> = {};
+  for (const key of ["type", "description", "enum", "format", "nullable", "required"]) {
+    if (schema[key] !== undefined) converted[key] = schema[key];
+  }
+  if (schema.items) {
+    converted.items = toGeminiSchema(schema.items as JsonSchema);
+  }
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties as Record<string, JsonSchema>).map(([name, property]) => [name, toGeminiSchema(property)])
+    );
+  }
+  return converted as unknown as ResponseSchema;
+}
+
+function toTokenUsage(metadata?: UsageMetadata): TokenUsage | undefined {
+  return metadata ? { inputTokens: metadata.promptTokenCount, outputTokens: metadata.candidatesTokenCount } : undefined;
+}
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  roleModels?: Partial<RoleModels>;
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private client: GoogleGenerativeAI;
+  private roleModels: RoleModels;
+
+  constructor(options: GeminiProviderOptions = {}) {
+    this.client = new GoogleGenerativeAI(options.apiKey ?? process.env.GOOGLE_API_KEY ?? '');
+    this.roleModels = { ...defaultGeminiRoleModels, ...options.roleModels };
+  }
+
+  modelFor(role: ModelRole): string {
+    return this.roleModels[role];
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    const model = request.model ?? this.modelFor(request.role);
+    const generativeModel = this.client.getGenerativeModel({
+      model,
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxOutputTokens,
+        ...(request.responseSchema ? {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.responseSchema),
+        } : {}),
+      }
+    });
+
+    const contents = [{ role: "user", parts: [{ text: request.prompt }] }];
+    if (request.onToken) {
+      const stream = await generativeModel.generateContentStream({ contents });
+      let text = "";
+      for await (const chunk of stream.stream) {
+        text += chunk.text();
+        request.onToken(chunk.text());
+      }
+      return { text, model, usage: toTokenUsage((await stream.response).usageMetadata) };
+    }
+
+    const response = await generativeModel.generateContent({ contents });
+    return { text: response.response.text(), model, usage: toTokenUsage(response.response.usageMetadata) };
+  }
+}
@@ -0,0 +1,128 @@
+import { RunnableConfig } from "@langchain/core/runnables";
+import { LLMProvider, ModelPrice, ModelRole, RoleModels, modelRoles } from './types';
+import { GeminiProvider, modelLimits, modelCascade, modelPrices } from './gemini';
+import { OpenAICompatibleProvider, openAIModelPrices } from './openai';
+import { ModelRouter, UsageStore } from './router';
+
+export * from './types';
+export { GeminiProvider, models, modelLimits, modelCascade, modelPrices } from './gemini';
+export { OpenAICompatibleProvider, openAIModelPrices } from './openai';
+export { ModelRouter, UsageStore, QuotaExhaustedError, defaultQuotaTimeZone } from './router';
+export { ScriptedLLMProvider } from './fake';
+export { MeteredLLMProvider, estimateTokens, estimateCost, modelPrice } from './metered';
+export { ModelOverrideProvider } from './overrides';
+export type { UsageCall } from './metered';
+
+// Prices of the known models of every provider, used to estimate the cost of a run
+export const defaultModelPrices: Record<string, ModelPrice> = { ...modelPrices, ...openAIModelPrices };
+
+export type LLMProviderName = "gemini" | "openai";
+
+export const llmProviderNames: LLMProviderName[] = ["gemini", "openai"];
+
+// Settings used to build a provider
+export interface LLMSettings {
+  provider: LLMProviderName;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible endpoint only
+  model?: string;   // Default model for every role (OpenAI-compatible endpoint only)
+  roleModels?: Partial<RoleModels>;
+  cascade?: string[]; // Fallback order when a model's quota runs out
+  usageFile?: string; // Where request counters are persisted between runs
+  quotaTimeZone?: string; // Time zone whose midnight resets the daily counters (default: America/Los_Angeles)
+}
+
+export const defaultUsageFile = ".deep-research/usage.json";
+
+// Read provider settings from the environment:
+//   LLM_PROVIDER            gemini (default) | openai
+//   GOOGLE_API_KEY          Gemini API key
+//   OPENAI_BASE_URL         OpenAI-compatible endpoint (e.g. a local llama.cpp or Ollama server)
+//   OPENAI_API_KEY          API key for the endpoint, if it needs one
+//   OPENAI_MODEL            Default model for every role
+//   LLM_MODEL_<ROLE>        Per-role override, e.g. LLM_MODEL_WRITER
+//   LLM_CASCADE             Comma-separated fallback order of models (default for Gemini: premiumPlus,premium,standard)
+//   LLM_USAGE_FILE          File keeping per-model request counts (default: .deep-research/usage.json)
+//   LLM_QUOTA_TIMEZONE      IANA time zone in which daily quotas reset (default: America/Los_Angeles)
+export function llmSettingsFromEnv(env: NodeJS.ProcessEnv = process.env): LLMSettings {
+  const provider = (env.LLM_PROVIDER || "gemini") as LLMProviderName;
+  if (!llmProviderNames.includes(provider)) {
+    throw new Error(`Unknown LLM provider "${provider}". Expected one of: ${llmProviderNames.join(", ")}`);
+  }
+
+  const roleModels: Partial<RoleModels> = {};
+  for (const role of modelRoles) {
+    const model = env[`LLM_MODEL_${role.toUpperCase()}`];
+    if (model) roleModels[role] = model;
+  }
+
+  const cascade = env.LLM_CASCADE
+    ? env.LLM_CASCADE.split(",").map(model => model.trim()).filter(model => model.length > 0)
+    : undefined;
+  const usageFile = env.LLM_USAGE_FILE || defaultUsageFile;
+  const quotaTimeZone = env.LLM_QUOTA_TIMEZONE || undefined;
+
+  return provider === "gemini"
+    ? { provider, apiKey: env.GOOGLE_API_KEY, roleModels, cascade, usageFile, quotaTimeZone }
+    : {
+      provider, apiKey: env.OPENAI_API_KEY, baseUrl: env.OPENAI_BASE_URL, model: env.OPENAI_MODEL,
+      roleModels, cascade, usageFile, quotaTimeZone,
+    };
+}
+
+// Build the provider behind a ModelRouter that enforces its rate limits and fallback cascade
+export function createLLMProvider(settings: LLMSettings): LLMProvider {
+  const usage = new UsageStore(settings.usageFile, settings.quotaTimeZone);
+
+  switch (settings.provider) {
+    case "gemini":
+      return new ModelRouter(
+        new GeminiProvider({ apiKey: settings.apiKey, roleModels: settings.roleModels }),
+        { limits: modelLimits, cascade: settings.cascade ?? modelCascade, usage }
+      );
+    case "openai":
+      // Limits of OpenAI-compatible endpoints are unknown: only retries and the cascade apply
+      return new ModelRouter(
+        new OpenAICompatibleProvider({
+          apiKey: settings.apiKey,
+          baseUrl: settings.baseUrl,
+          model: settings.model,
+          roleModels: settings.roleModels,
+        }),
+        { cascade: settings.cascade, usage }
+      );
+    default:
+      throw new Error(`Unknown LLM provider "${(settings as LLMSettings).provider}"`);
+  }
+}
+
+let defaultProvider: LLMProvider | undefined;
+// Providers built from settings passed in a run config, so that every node of the run shares one router
+const providersBySettings = new WeakMap<LLMSettings, LLMProvider>();
+
+// Provider built from the environment, created on first use
+export function getDefaultLLMProvider(): LLMProvider {
+  if (!defaultProvider) {
+    defaultProvider = createLLMProvider(llmSettingsFromEnv());
+  }
+  return defaultProvider;
+}
+
+// Resolve the provider for a run: config.configurable.llm may hold a provider
+// instance or settings; otherwise the provider configured in the environment is used
+export function getLLMProvider(config?: RunnableConfig): LLMProvider {
+  const llm = config?.configurable?.llm as LLMProvider | LLMSettings | undefined;
+  if (!llm) return getDefaultLLMProvider();
+  if ("generate" in llm) return llm;
+
+  let provider = providersBySettings.get(llm);
+  if (!provider) {
+    provider = createLLMProvider(llm);
+    providersBySettings.set(llm, provider);
+  }
+  return provider;
+}
+
+export function isModelRole(value: string): value is ModelRole {
+  return (modelRoles as string[]).includes(value);
+}
@@ -0,0 +1,52 @@
+import { LLMProvider, ModelRole, ModelPrice, GenerateRequest, GenerateResponse, TokenUsage } from './types';
+
+// Tokens and estimated cost of one model call
+export interface UsageCall extends TokenUsage {
+  model: string;
+  cost: number;
+}
+
+// Rough token count of a text, for providers that do not report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Cost in US dollars of the tokens at the model's price; models without a price are free
+export function estimateCost(usage: TokenUsage, price?: ModelPrice): number {
+  return price ? (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1e6 : 0;
+}
+
+// Price of a model; endpoints may answer with a dated snapshot (gpt-4o-mini-2024-07-18) of a model
+// priced under its base name, found as the longest matching prefix, or else under the model requested
+export function modelPrice(prices: Record<string, ModelPrice>, model: string, requested?: string): ModelPrice | undefined {
+  if (prices[model]) return prices[model];
+  const base = Object.keys(prices)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return base ? prices[base] : requested ? prices[requested] : undefined;
+}
+
+// LLM provider that records the tokens and estimated cost of every call made through it
+export class MeteredLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly calls: UsageCall[] = [];
+
+  constructor(private inner: LLMProvider, private prices: Record<string, ModelPrice> = {}) {
+    this.name = inner.name;
+  }
+
+  modelFor(role: ModelRole): string {
+    return this.inner.modelFor(role);
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    const response = await this.inner.generate(request);
+    const usage = response.usage ?? {
+      inputTokens: estimateTokens(request.prompt),
+      outputTokens: estimateTokens(response.text),
+    };
+    const price = modelPrice(this.prices, response.model, request.model ?? this.modelFor(request.role));
+    this.calls.push({ model: response.model, ...usage, cost: estimateCost(usage, price) });
+    return response;
+  }
+}
@@ -0,0 +1,131 @@
+import { LLMProvider, ModelRole, ModelPrice, RoleModels, GenerateRequest, GenerateResponse, LLMRequestError, TokenUsage, modelRoles } from './types';
+
+export interface OpenAICompatibleProviderOptions {
+  baseUrl?: string; // e.g. https://api.openai.com/v1, http://localhost:8080/v1 (llama.cpp), http://localhost:11434/v1 (Ollama)
+  apiKey?: string;  // Optional for local servers
+  model?: string;   // Default model for every role
+  roleModels?: Partial<RoleModels>;
+}
+
+// Prices per million tokens of common OpenAI models, used to estimate what a run costs.
+// Models missing here (e.g. local ones) are counted as free.
+export const openAIModelPrices: Record<string, ModelPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+};
+
+// Token counts reported by the endpoint
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+// Shape of the parts of a chat completion response we read
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: ChatCompletionUsage;
+}
+
+// Shape of the parts of a streamed chat completion chunk we read
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: Array<{ delta?: { content?: string | null } }>;
+  usage?: ChatCompletionUsage | null; // Sent in the last chunk when include_usage is set
+}
+
+function toTokenUsage(usage?: ChatCompletionUsage | null): TokenUsage | undefined {
+  return usage ? { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 } : undefined;
+}
+
+// Provider for any endpoint implementing the OpenAI chat completions API
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+  private baseUrl: string;
+  private apiKey?: string;
+  private roleModels: RoleModels;
+
+  constructor(options: OpenAICompatibleProviderOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+
+    const defaultModel = options.model ?? "gpt-4o-mini";
+    const roleModels = {} as RoleModels;
+    for (const role of modelRoles) {
+      roleModels[role] = options.roleModels?.[role] ?? defaultModel;
+    }
+    this.roleModels = roleModels;
+  }
+
+  modelFor(role: ModelRole): string {
+    return this.roleModels[role];
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    const model = request.model ?? this.modelFor(request.role);
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) headers["Authorization"] = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: request.prompt }],
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        response_format: request.responseSchema
+          ? { type: "json_schema", json_schema: { name: "response", schema: request.responseSchema } }
+          : undefined,
+        stream: request.onToken ? true : undefined,
+        stream_options: request.onToken ? { include_usage: true } : undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new LLMRequestError(`OpenAI-compatible request failed with status ${response.status}: ${body}`, response.status);
+    }
+
+    if (request.onToken && response.body) {
+      return this.readStream(response.body, model, request.onToken);
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    const text = data.choices?.[0]?.message?.content ?? "";
+    return { text, model: data.model ?? model, usage: toTokenUsage(data.usage) };
+  }
+
+  // Read a server-sent event stream of completion chunks ("data: {...}" lines, ending with "data: [DONE]")
+  private async readStream(body: ReadableStream<Uint8Array>, model: string, onToken: (text: string) => void): Promise<GenerateResponse> {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    let streamedModel: string | undefined;
+    let usage: TokenUsage | undefined;
+
+    for await (const bytes of body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const data = line.match(/^data:\s*(.*)$/)?.[1];
+        if (!data || data === "[DONE]") continue;
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        streamedModel = streamedModel ?? chunk.model;
+        usage = toTokenUsage(chunk.usage) ?? usage;
+        const token = chunk.choices?.[0]?.delta?.content;
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+      }
+    }
+    return { text, model: streamedModel ?? model, usage };
+  }
+}
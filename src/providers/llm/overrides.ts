@@ -0,0 +1,19 @@
+import { LLMProvider, ModelRole, RoleModels, GenerateRequest, GenerateResponse } from './types';
+
+// LLM provider that asks the wrapped provider for other models for some roles
+export class ModelOverrideProvider implements LLMProvider {
+  readonly name: string;
+
+  constructor(private inner: LLMProvider, private models: Partial<RoleModels>) {
+    this.name = inner.name;
+  }
+
+  modelFor(role: ModelRole): string {
+    return this.models[role] ?? this.inner.modelFor(role);
+  }
+
+  generate(request: GenerateRequest): Promise<GenerateResponse> {
+    const model = request.model ?? this.models[request.role];
+    return this.inner.generate(model ? { ...request, model } : request);
+  }
+}
@@ -0,0 +1,224 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import path from "path";
+import { LLMProvider, ModelRole, ModelLimits, GenerateRequest, GenerateResponse } from './types';
+import { logger } from '../../utils/logger';
+
+const MINUTE_MS = 60 * 1000;
+
+// Thrown when a model (and every model after it in the cascade) has no quota left
+export class QuotaExhaustedError extends Error {
+  constructor(public model: string, reason: string) {
+    super(`Quota exhausted for model ${model}: ${reason}`);
+    this.name = "QuotaExhaustedError";
+  }
+}
+
+interface ModelUsage {
+  day: string; // Date, in the quota's time zone, the daily count belongs to
+  requestsToday: number;
+  exhaustedToday: boolean; // Set when the API reported the daily quota as spent
+  recent: number[]; // Request timestamps within the last minute
+}
+
+// Daily quotas of the Gemini API reset at midnight Pacific time
+export const defaultQuotaTimeZone = "America/Los_Angeles";
+
+// Request counters per model, optionally persisted to a JSON file so daily limits hold across runs.
+// The file is read again before every update, so processes sharing it see each other's requests;
+// it is not locked, though, and two processes updating it at the same moment can lose a count.
+export class UsageStore {
+  private usage: Record<string, ModelUsage> = {};
+  private days: Intl.DateTimeFormat;
+
+  constructor(private filePath?: string, timeZone: string = defaultQuotaTimeZone) {
+    // en-CA formats dates as YYYY-MM-DD; an unknown time zone throws here
+    this.days = new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" });
+    this.load();
+  }
+
+  // Usage of a model as of `now`, with the daily count reset on a new day and old timestamps dropped
+  get(model: string, now: number): ModelUsage {
+    this.load();
+    const day = this.days.format(now);
+    let usage = this.usage[model];
+    if (!usage || usage.day !== day) {
+      usage = { day, requestsToday: 0, exhaustedToday: false, recent: [] };
+      this.usage[model] = usage;
+    }
+    usage.recent = usage.recent.filter(timestamp => timestamp > now - MINUTE_MS);
+    return usage;
+  }
+
+  record(model: string, now: number): void {
+    const usage = this.get(model, now);
+    usage.requestsToday++;
+    usage.recent.push(now);
+    this.save();
+  }
+
+  markExhausted(model: string, now: number): void {
+    this.get(model, now).exhaustedToday = true;
+    this.save();
+  }
+
+  private load(): void {
+    if (!this.filePath || !existsSync(this.filePath)) return;
+    try {
+      this.usage = JSON.parse(readFileSync(this.filePath, "utf8"));
+    } catch (error) {
+      logger.warn(`Ignoring unreadable usage file ${this.filePath}`, { error });
+    }
+  }
+
+  private save(): void {
+    if (!this.filePath) return;
+    mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Replaced in one step, so that other processes never read a half-written file
+    writeFileSync(`${this.filePath}.tmp`, JSON.stringify(this.usage, null, 2), "utf8");
+    renameSync(`${this.filePath}.tmp`, this.filePath);
+  }
+}
+
+export interface ModelRouterOptions {
+  limits?: Record<string, ModelLimits>; // Per-model quotas
+  cascade?: string[]; // Fallback order, e.g. premiumPlus -> premium -> standard
+  usage?: UsageStore;
+  maxRetries?: number; // Retries of transient errors per model (default: 3)
+  baseDelayMs?: number; // First backoff delay (default: 2000)
+  maxDelayMs?: number; // Backoff ceiling (default: 60000)
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+type ErrorKind = "daily-quota" | "rate-limit" | "transient" | "fatal";
+
+// Sort a provider error into what the router should do with it
+function classifyError(error: unknown): ErrorKind {
+  const details = error as { status?: number; message?: string; errorDetails?: unknown };
+  const status = typeof details?.status === "number"
+    ? details.status
+    : Number((String(details?.message).match(/\bstatus (\d{3})\b|\[(\d{3})/) || [])[1] || NaN);
+  const text = `${details?.message ?? ""} ${JSON.stringify(details?.errorDetails ?? "")}`;
+
+  if (status === 429) {
+    return /PerDay|per day|daily/i.test(text) ? "daily-quota" : "rate-limit";
+  }
+  if ([500, 502, 503, 504].includes(status)) return "transient";
+  if (/fetch failed|ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|socket hang up/i.test(text)) return "transient";
+  return "fatal";
+}
+
+// Central scheduler for model calls: keeps each model under its per-minute and per-day quotas
+// by queueing requests, retries transient errors with exponential backoff, and falls through
+// the cascade to the next model when a model's quota runs out.
+export class ModelRouter implements LLMProvider {
+  readonly name: string;
+  private limits: Record<string, ModelLimits>;
+  private cascade: string[];
+  private usage: UsageStore;
+  private queues = new Map<string, Promise<unknown>>();
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(private inner: LLMProvider, private options: ModelRouterOptions = {}) {
+    this.name = inner.name;
+    this.limits = options.limits ?? {};
+    this.cascade = options.cascade ?? [];
+    this.usage = options.usage ?? new UsageStore();
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  modelFor(role: ModelRole): string {
+    return this.inner.modelFor(role);
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    const requested = request.model ?? this.inner.modelFor(request.role);
+
+    // The requested model first, then the models after it in the cascade
+    const position = this.cascade.indexOf(requested);
+    const candidates = position >= 0 ? this.cascade.slice(position) : [requested];
+
+    let lastError: QuotaExhaustedError | undefined;
+    for (const model of candidates) {
+      try {
+        return await this.generateWithRetries({ ...request, model });
+      } catch (error) {
+        if (!(error instanceof QuotaExhaustedError)) throw error;
+        lastError = error;
+        if (model !== candidates[candidates.length - 1]) {
+          logger.warn(`${error.message}. Falling back to the next model in the cascade.`);
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  private async generateWithRetries(request: GenerateRequest & { model: string }): Promise<GenerateResponse> {
+    const maxRetries = this.options.maxRetries ?? 3;
+    const baseDelayMs = this.options.baseDelayMs ?? 2000;
+    const maxDelayMs = this.options.maxDelayMs ?? 60000;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(request.model);
+
+      try {
+        return await this.inner.generate(request);
+      } catch (error) {
+        const kind = classifyError(error);
+
+        if (kind === "daily-quota") {
+          this.usage.markExhausted(request.model, this.now());
+          throw new QuotaExhaustedError(request.model, "daily quota reported by the API");
+        }
+        if (kind === "fatal") throw error;
+
+        if (attempt >= maxRetries) {
+          // A model that keeps rate limiting us is treated as out of quota for this call
+          if (kind === "rate-limit") {
+            throw new QuotaExhaustedError(request.model, `still rate limited after ${maxRetries} retries`);
+          }
+          throw error;
+        }
+
+        const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+        logger.warn(`Model ${request.model} failed (${kind}), retrying in ${Math.round(delay)}ms`, { error });
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  // Wait for a request slot for the model. Slots are handed out one at a time per model,
+  // so concurrent callers queue up instead of racing past the per-minute limit.
+  private acquire(model: string): Promise<void> {
+    const previous = this.queues.get(model) ?? Promise.resolve();
+    const slot = previous.then(() => this.waitForSlot(model));
+    this.queues.set(model, slot.catch(() => undefined));
+    return slot;
+  }
+
+  private async waitForSlot(model: string): Promise<void> {
+    const limits = this.limits[model] ?? {};
+
+    while (true) {
+      const now = this.now();
+      const usage = this.usage.get(model, now);
+
+      if (usage.exhaustedToday) {
+        throw new QuotaExhaustedError(model, "daily quota already spent");
+      }
+      if (limits.requestsPerDay !== undefined && usage.requestsToday >= limits.requestsPerDay) {
+        throw new QuotaExhaustedError(model, `daily limit of ${limits.requestsPerDay} requests reached`);
+      }
+      if (limits.requestsPerMinute !== undefined && usage.recent.length >= limits.requestsPerMinute) {
+        // Wait until the oldest request of the last minute leaves the window
+        await this.sleep(usage.recent[0] + MINUTE_MS - now);
+        continue;
+      }
+
+      this.usage.record(model, now);
+      return;
+    }
+  }
+}
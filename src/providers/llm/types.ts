@@ -0,0 +1,63 @@
+// Roles the agent asks a model to play; each provider maps a role to a model
+export type ModelRole =
+  | "planner"    // Research planning (creative, complex reasoning)
+  | "summarizer" // Page summarization (high-volume, simpler task)
+  | "evaluator"  // Completeness evaluation (balanced reasoning)
+  | "filter"     // Source ranking (intermediate task)
+  | "verifier"   // Checking that cited sources support the report's claims
+  | "writer";    // Report writing (most complex task)
+
+export const modelRoles: ModelRole[] = ["planner", "summarizer", "evaluator", "filter", "verifier", "writer"];
+
+export type RoleModels = Record<ModelRole, string>;
+
+export interface GenerateRequest {
+  role: ModelRole;
+  prompt: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  model?: string; // Overrides the model selected for the role
+  responseSchema?: JsonSchema; // Constrains the reply to JSON of this shape, where the provider supports it
+  onToken?: (text: string) => void; // Receives the reply as it streams, where the provider supports it
+}
+
+// JSON Schema of a structured reply, as produced by zod-to-json-schema
+export type JsonSchema = Record<string, unknown>;
+
+export interface GenerateResponse {
+  text: string;
+  model: string; // The model that actually produced the text
+  usage?: TokenUsage; // Tokens billed for the call, when the provider reports them
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Price of a model in US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Request quotas of a model; missing limits are not enforced
+export interface ModelLimits {
+  requestsPerMinute?: number;
+  requestsPerDay?: number;
+}
+
+// Error raised by a provider for a failed HTTP request, keeping the status for retry decisions
+export class LLMRequestError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "LLMRequestError";
+  }
+}
+
+// A backend able to generate text for the agent's nodes
+export interface LLMProvider {
+  readonly name: string;
+  modelFor(role: ModelRole): string;
+  generate(request: GenerateRequest): Promise<GenerateResponse>;
+}
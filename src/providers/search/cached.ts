@@ -0,0 +1,31 @@
+import { SearchResult } from '../../models/search';
+import { FileCache } from '../../utils/cache';
+import { SearchProvider, SearchOptions } from './types';
+import { logger } from '../../utils/logger';
+
+// Search provider that answers repeated queries from a persistent cache
+export class CachedSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(private inner: SearchProvider, private cache: FileCache) {
+    this.name = inner.name;
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    // Keyed by the query and the provider settings that shape the response
+    const key = { provider: this.inner.name, query, ...options };
+
+    const cached = await this.cache.get<SearchResult[]>("search", key);
+    if (cached) {
+      logger.info(`Using cached search results for: ${query}`);
+      return cached;
+    }
+
+    const results = await this.inner.search(query, options);
+    // Empty responses are not cached: they are often transient failures
+    if (results.length > 0) {
+      await this.cache.set("search", key, results);
+    }
+    return results;
+  }
+}
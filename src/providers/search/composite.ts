@@ -0,0 +1,38 @@
+import { SearchResult } from '../../models/search';
+import { SearchProvider, SearchOptions } from './types';
+import { logger } from '../../utils/logger';
+
+// Runs a query against several providers and interleaves their results, keeping each link once.
+// Each provider returns up to maxResults; a failing provider is skipped.
+export class CompositeSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(private providers: SearchProvider[]) {
+    this.name = providers.map(provider => provider.name).join("+");
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    const resultLists = await Promise.all(this.providers.map(async provider => {
+      try {
+        return await provider.search(query, options);
+      } catch (error) {
+        logger.error(`Search error from provider "${provider.name}"`, { query, error });
+        return [];
+      }
+    }));
+
+    // Interleave so that no single provider dominates the top of the list
+    const merged: SearchResult[] = [];
+    const links = new Set<string>();
+    const longest = Math.max(0, ...resultLists.map(list => list.length));
+    for (let i = 0; i < longest; i++) {
+      for (const list of resultLists) {
+        if (i < list.length && !links.has(list[i].link)) {
+          links.add(list[i].link);
+          merged.push(list[i]);
+        }
+      }
+    }
+    return merged;
+  }
+}
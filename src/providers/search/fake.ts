@@ -0,0 +1,24 @@
+import { SearchResult } from '../../models/search';
+import { SearchProvider, SearchOptions } from './types';
+
+// Canned results per query (a function receives the query); unknown queries return no results
+export type CannedResults = Record<string, SearchResult[] | Error> | ((query: string) => SearchResult[]);
+
+// Deterministic provider for tests: answers from canned results and records every query, with its options
+export class StaticSearchProvider implements SearchProvider {
+  readonly name = "static";
+  readonly queries: string[] = [];
+  readonly options: SearchOptions[] = [];
+
+  constructor(private results: CannedResults = {}) {}
+
+  async search(query: string, options: SearchOptions): Promise<SearchResult[]> {
+    const { maxResults } = options;
+    this.queries.push(query);
+    this.options.push(options);
+
+    const results = typeof this.results === "function" ? this.results(query) : this.results[query] ?? [];
+    if (results instanceof Error) throw results;
+    return results.slice(0, maxResults);
+  }
+}
@@ -0,0 +1,89 @@
+import { RunnableConfig } from "@langchain/core/runnables";
+import { SearchProvider } from './types';
+import { TavilyProvider } from './tavily';
+import { SearxngProvider } from './searxng';
+import { LocalCorpusProvider } from './local';
+import { CompositeSearchProvider } from './composite';
+
+export * from './types';
+export { TavilyProvider } from './tavily';
+export { SearxngProvider } from './searxng';
+export { LocalCorpusProvider, loadCorpusDocument, htmlToText } from './local';
+export { CompositeSearchProvider } from './composite';
+export { StaticSearchProvider } from './fake';
+export { CachedSearchProvider } from './cached';
+
+export type SearchProviderName = "tavily" | "searxng" | "local";
+
+export const searchProviderNames: SearchProviderName[] = ["tavily", "searxng", "local"];
+
+// Settings used to build the search backend; several providers are mixed into one
+export interface SearchSettings {
+  providers: SearchProviderName[];
+  tavilyApiKey?: string;
+  searxngUrl?: string;
+  corpusDir?: string;
+}
+
+// Read search settings from the environment:
+//   SEARCH_PROVIDERS   Comma-separated list of tavily (default), searxng, local
+//   TAVILY_API_KEY     Tavily API key
+//   SEARXNG_URL        Base URL of a SearXNG instance
+//   LOCAL_CORPUS_DIR   Folder of markdown, text, HTML and PDF files to search
+export function searchSettingsFromEnv(env: NodeJS.ProcessEnv = process.env): SearchSettings {
+  return {
+    providers: parseSearchProviderNames(env.SEARCH_PROVIDERS || "tavily"),
+    tavilyApiKey: env.TAVILY_API_KEY,
+    searxngUrl: env.SEARXNG_URL,
+    corpusDir: env.LOCAL_CORPUS_DIR,
+  };
+}
+
+export function parseSearchProviderNames(list: string): SearchProviderName[] {
+  const names = list.split(",").map(name => name.trim()).filter(name => name.length > 0);
+  for (const name of names) {
+    if (!(searchProviderNames as string[]).includes(name)) {
+      throw new Error(`Unknown search provider "${name}". Expected any of: ${searchProviderNames.join(", ")}`);
+    }
+  }
+  if (names.length === 0) throw new Error("At least one search provider is required");
+  return Array.from(new Set(names)) as SearchProviderName[];
+}
+
+export function createSearchProvider(settings: SearchSettings): SearchProvider {
+  const providers = settings.providers.map((name): SearchProvider => {
+    switch (name) {
+      case "tavily":
+        return new TavilyProvider({ apiKey: settings.tavilyApiKey });
+      case "searxng":
+        if (!settings.searxngUrl) throw new Error("The searxng search provider needs a URL (SEARXNG_URL)");
+        return new SearxngProvider({ baseUrl: settings.searxngUrl });
+      case "local":
+        if (!settings.corpusDir) throw new Error("The local search provider needs a corpus folder (LOCAL_CORPUS_DIR)");
+        return new LocalCorpusProvider({ directory: settings.corpusDir });
+      default:
+        throw new Error(`Unknown search provider "${name}"`);
+    }
+  });
+
+  return providers.length === 1 ? providers[0] : new CompositeSearchProvider(providers);
+}
+
+let defaultProvider: SearchProvider | undefined;
+
+// Provider built from the environment, created on first use
+export function getDefaultSearchProvider(): SearchProvider {
+  if (!defaultProvider) {
+    defaultProvider = createSearchProvider(searchSettingsFromEnv());
+  }
+  return defaultProvider;
+}
+
+// Resolve the search backend for a run: config.configurable.search may hold a provider
+// instance or settings; otherwise the providers configured in the environment are used
+export function getSearchProvider(config?: RunnableConfig): SearchProvider {
+  const search = config?.configurable?.search as SearchProvider | SearchSettings | undefined;
+  if (!search) return getDefaultSearchProvider();
+  if ("search" in search) return search;
+  return createSearchProvider(search);
+}
@@ -0,0 +1,177 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import { SearchResult } from '../../models/search';
+import { BM25Index } from '../../utils/bm25';
+import { SearchProvider, SearchOptions } from './types';
+import { logger } from '../../utils/logger';
+
+// File types the local corpus can index
+export const corpusExtensions = [".md", ".markdown", ".txt", ".html", ".htm", ".pdf"];
+
+export interface CorpusDocument {
+  path: string;
+  title: string;
+  text: string;
+}
+
+interface Passage {
+  document: CorpusDocument;
+  text: string;
+}
+
+export interface LocalCorpusProviderOptions {
+  directory: string;
+  passageSize?: number; // Approximate passage length in characters (default: 1500)
+  passagesPerResult?: number; // Best passages joined into each result's content (default: 3)
+}
+
+// Decode the handful of HTML entities that matter for plain text
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+// Reduce an HTML page to its readable text
+export function htmlToText(html: string): { title?: string; text: string } {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i) || html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+  const text = html
+    .replace(/<(script|style|noscript|head)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<\/(p|div|section|article|li|h[1-6]|tr|br)>|<br\s*\/?>/gi, "\n\n")
+    .replace(/<[^>]+>/g, " ");
+
+  return {
+    title: titleMatch ? decodeEntities(titleMatch[1].replace(/<[^>]+>/g, "")).trim() : undefined,
+    text: decodeEntities(text).replace(/[ \t]+/g, " ").replace(/\n\s*\n\s*/g, "\n\n").trim(),
+  };
+}
+
+// Read a corpus file and extract its title and plain text
+export async function loadCorpusDocument(filePath: string): Promise<CorpusDocument> {
+  const extension = path.extname(filePath).toLowerCase();
+  const fallbackTitle = path.basename(filePath, extension);
+
+  if (extension === ".pdf") {
+    // Loaded lazily, only when a corpus actually contains PDFs
+    // (the package entry point runs a self-test when required directly)
+    const pdfParse: typeof import("pdf-parse") = require("pdf-parse/lib/pdf-parse.js");
+    const pdf = await pdfParse(await fs.readFile(filePath));
+    return { path: filePath, title: pdf.info?.Title || fallbackTitle, text: pdf.text };
+  }
+
+  const raw = await fs.readFile(filePath, "utf8");
+
+  if (extension === ".html" || extension === ".htm") {
+    const { title, text } = htmlToText(raw);
+    return { path: filePath, title: title || fallbackTitle, text };
+  }
+
+  if (extension === ".md" || extension === ".markdown") {
+    const heading = raw.match(/^#\s+(.*?)$/m);
+    return { path: filePath, title: heading ? heading[1].trim() : fallbackTitle, text: raw };
+  }
+
+  return { path: filePath, title: fallbackTitle, text: raw };
+}
+
+// List indexable files under a directory, skipping hidden folders and node_modules
+async function listCorpusFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".") && entry.name !== "node_modules") {
+        files.push(...await listCorpusFiles(fullPath));
+      }
+    } else if (corpusExtensions.includes(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+// Group paragraphs into passages of roughly passageSize characters
+function splitIntoPassages(text: string, passageSize: number): string[] {
+  const passages: string[] = [];
+  let current = "";
+
+  for (const paragraph of text.split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length > 0)) {
+    if (current && current.length + paragraph.length > passageSize) {
+      passages.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) passages.push(current);
+
+  return passages;
+}
+
+// Offline search over a folder of markdown, text, HTML and PDF files using a BM25 index
+export class LocalCorpusProvider implements SearchProvider {
+  readonly name = "local";
+  private index?: Promise<BM25Index<Passage>>;
+
+  constructor(private options: LocalCorpusProviderOptions) {}
+
+  // Build the index on first use; later searches reuse it
+  private getIndex(): Promise<BM25Index<Passage>> {
+    if (!this.index) {
+      this.index = this.buildIndex();
+    }
+    return this.index;
+  }
+
+  private async buildIndex(): Promise<BM25Index<Passage>> {
+    const passageSize = this.options.passageSize ?? 1500;
+    const passages: Passage[] = [];
+
+    for (const file of await listCorpusFiles(this.options.directory)) {
+      try {
+        const document = await loadCorpusDocument(file);
+        for (const text of splitIntoPassages(document.text, passageSize)) {
+          passages.push({ document, text });
+        }
+      } catch (error) {
+        logger.error(`Failed to index corpus file "${file}"`, { error });
+      }
+    }
+
+    logger.info(`Indexed ${passages.length} passages from local corpus ${this.options.directory}`);
+    // Titles are indexed with every passage so that they count towards relevance
+    return new BM25Index(passages.map(passage => ({
+      item: passage,
+      text: `${passage.document.title}\n${passage.text}`,
+    })));
+  }
+
+  async search(query: string, { maxResults }: SearchOptions): Promise<SearchResult[]> {
+    const index = await this.getIndex();
+    const passagesPerResult = this.options.passagesPerResult ?? 3;
+
+    // Group the best passages by document, keeping documents in order of their best passage
+    const byDocument = new Map<string, Passage[]>();
+    for (const { item } of index.search(query, index.size)) {
+      const passages = byDocument.get(item.document.path);
+      if (passages) {
+        if (passages.length < passagesPerResult) passages.push(item);
+      } else if (byDocument.size < maxResults) {
+        byDocument.set(item.document.path, [item]);
+      }
+    }
+
+    return Array.from(byDocument.values()).map(passages => ({
+      title: passages[0].document.title,
+      link: pathToFileURL(passages[0].document.path).href,
+      content: passages.map(passage => passage.text).join("\n\n"),
+      rawContent: passages[0].document.text,
+      origin: this.name,
+    }));
+  }
+}
@@ -0,0 +1,47 @@
+import { SearchResult } from '../../models/search';
+import { SearchProvider, SearchOptions } from './types';
+
+export interface SearxngProviderOptions {
+  baseUrl: string; // e.g. http://localhost:8888
+  params?: Record<string, string>; // Extra query parameters (categories, language, engines...)
+}
+
+// Shape of the parts of a SearXNG JSON response we read
+interface SearxngResponse {
+  results?: Array<{ title?: string; url?: string; content?: string; publishedDate?: string | null }>;
+}
+
+// Search through a self-hosted SearXNG instance (or any endpoint answering in its JSON format)
+export class SearxngProvider implements SearchProvider {
+  readonly name = "searxng";
+  private baseUrl: string;
+
+  constructor(private options: SearxngProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+  }
+
+  async search(query: string, { maxResults, timeRange }: SearchOptions): Promise<SearchResult[]> {
+    const params = new URLSearchParams({
+      ...this.options.params,
+      ...(timeRange ? { time_range: timeRange } : {}), // SearXNG has no domain filters
+      q: query,
+      format: "json",
+    });
+    const response = await fetch(`${this.baseUrl}/search?${params.toString()}`, {
+      headers: { Accept: "application/json" },
+    });
+
+    if (!response.ok) {
+      throw new Error(`SearXNG request failed with status ${response.status}`);
+    }
+
+    const data = await response.json() as SearxngResponse;
+    return (data.results || []).slice(0, maxResults).map(result => ({
+      title: result.title || 'No Title Provided',
+      link: result.url || 'No Link Provided',
+      content: result.content || '',
+      ...(result.publishedDate ? { publishedDate: result.publishedDate } : {}),
+      origin: this.name,
+    }));
+  }
+}
@@ -0,0 +1,53 @@
+import { TavilySearch } from "@langchain/tavily";
+import { SearchResult } from '../../models/search';
+import { SearchDepth, SearchProvider, SearchOptions } from './types';
+
+export interface TavilyProviderOptions {
+  apiKey?: string;
+  searchDepth?: SearchDepth; // Default depth, when a search does not ask for one
+}
+
+// Web search through the Tavily search API
+export class TavilyProvider implements SearchProvider {
+  readonly name = "tavily";
+
+  constructor(private options: TavilyProviderOptions = {}) {}
+
+  async search(
+    query: string,
+    { maxResults, searchDepth, includeDomains, excludeDomains, timeRange, topic }: SearchOptions
+  ): Promise<SearchResult[]> {
+    const searchTool = new TavilySearch({
+      maxResults,
+      includeRawContent: true,
+      searchDepth: searchDepth ?? this.options.searchDepth ?? "basic",
+      // Filters of the source policy
+      ...(includeDomains ? { includeDomains } : {}),
+      ...(excludeDomains ? { excludeDomains } : {}),
+      ...(timeRange ? { timeRange } : {}),
+      ...(topic ? { topic } : {}),
+      ...(this.options.apiKey ? { tavilyApiKey: this.options.apiKey } : {}),
+    });
+
+    const searchResponse = await searchTool.invoke({
+      query: query,
+    });
+
+    const results: SearchResult[] = [];
+    // Process search results
+    for (const result of searchResponse.results || []) {
+      results.push({
+        title: result.title || 'No Title Provided',
+        link: result.url || 'No Link Provided',
+        content: result.content || '',
+        // Full page text, when Tavily could extract it
+        ...(result.raw_content ? { rawContent: result.raw_content } : {}),
+        // News results carry their publication date
+        ...(typeof result.published_date === "string" ? { publishedDate: result.published_date } : {}),
+        origin: this.name,
+      });
+    }
+
+    return results.slice(0, maxResults);
+  }
+}
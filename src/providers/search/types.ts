@@ -0,0 +1,23 @@
+import { SearchResult } from '../../models/search';
+
+export type SearchDepth = "basic" | "advanced";
+
+// Filters of the source policy a provider may apply to its own search (see searchFilters).
+// Providers without such a setting ignore it.
+export interface SearchFilters {
+  includeDomains?: string[];
+  excludeDomains?: string[];
+  timeRange?: "day" | "week" | "month" | "year"; // Published within this time back from today
+  topic?: "general" | "news" | "finance";
+}
+
+export interface SearchOptions extends SearchFilters {
+  maxResults: number;
+  searchDepth?: SearchDepth; // Providers without such a setting ignore it
+}
+
+// A backend able to answer search queries for the Search node
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, options: SearchOptions): Promise<SearchResult[]>;
+}
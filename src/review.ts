@@ -0,0 +1,89 @@
+import { createInterface, Interface } from "readline/promises";
+import { PlanReview, PlanReviewRequest, ReviewRequest, SourceReview, SourceReviewRequest } from "./models/review";
+
+// Ask the reviewer on the terminal; commands are read one per line until an empty line
+export async function promptReview(request: ReviewRequest): Promise<PlanReview | SourceReview> {
+  const terminal = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    return request.type === "plan"
+      ? await promptPlanReview(terminal, request)
+      : await promptSourceReview(terminal, request);
+  } finally {
+    terminal.close();
+  }
+}
+
+// Parse a 1-based item number from a command argument
+function itemIndex(argument: string, count: number): number | undefined {
+  const index = Number(argument) - 1;
+  return Number.isInteger(index) && index >= 0 && index < count ? index : undefined;
+}
+
+async function promptPlanReview(terminal: Interface, request: PlanReviewRequest): Promise<PlanReview> {
+  // Queries keep their position, deleted ones as empty entries, so that an edited query stays
+  // with the sub-question of the one it replaces; added ones are researched under the topic itself
+  const queries = [...request.queries];
+  console.error(`\nSub-questions of "${request.topic}":`);
+  request.subQuestions.forEach(({ question }, i) => console.error(`  ${i + 1}. ${question}`));
+
+  for (;;) {
+    console.error(`\nPlanned queries for "${request.topic}":`);
+    queries.forEach((query, i) => console.error(`  ${i + 1}. ${query || "(deleted)"}`));
+    console.error("Commands: e <n> <query> (edit), d <n> (delete), a <query> (add), empty line to continue");
+
+    const line = (await terminal.question("> ")).trim();
+    if (!line) return { queries };
+
+    const [command, ...rest] = line.split(/\s+/);
+    const index = itemIndex(rest[0], queries.length);
+    if (command === "a" && rest.length > 0) {
+      queries.push(rest.join(" "));
+    } else if (command === "d" && index !== undefined) {
+      queries[index] = "";
+    } else if (command === "e" && index !== undefined && rest.length > 1) {
+      queries[index] = rest.slice(1).join(" ");
+    } else {
+      console.error(`Unknown command: ${line}`);
+    }
+  }
+}
+
+async function promptSourceReview(terminal: Interface, request: SourceReviewRequest): Promise<SourceReview> {
+  const selected = new Set(request.sources.map(source => source.link));
+  const pin = new Set<string>();
+  const exclude = new Set<string>();
+  const notes: string[] = [];
+
+  for (;;) {
+    console.error(`\nSources found for "${request.topic}" (* selected for the report):`);
+    request.candidates.forEach((source, i) => {
+      const mark = exclude.has(source.link) ? "x" : pin.has(source.link) || selected.has(source.link) ? "*" : " ";
+      console.error(`  ${mark} ${i + 1}. ${source.title} <${source.link}>`);
+    });
+    console.error("Commands: p <n> (pin), x <n> (exclude), n <text> (note for the writer), empty line to continue");
+
+    const line = (await terminal.question("> ")).trim();
+    if (!line) break;
+
+    const [command, ...rest] = line.split(/\s+/);
+    const index = itemIndex(rest[0], request.candidates.length);
+    const url = index !== undefined ? request.candidates[index].link : undefined;
+    if (command === "p" && url) {
+      pin.add(url);
+      exclude.delete(url);
+    } else if (command === "x" && url) {
+      exclude.add(url);
+      pin.delete(url);
+    } else if (command === "n" && rest.length > 0) {
+      notes.push(rest.join(" "));
+    } else {
+      console.error(`Unknown command: ${line}`);
+    }
+  }
+
+  return {
+    pin: Array.from(pin),
+    exclude: Array.from(exclude),
+    notes: notes.length > 0 ? notes.join("\n") : undefined,
+  };
+}
@@ -0,0 +1,35 @@
+import dotenv from "dotenv";
+
+// Load environment variables
+dotenv.config();
+
+import { createResearcher } from "./graph";
+import { FileCheckpointSaver, defaultCheckpointDirectory } from "./checkpoint";
+import { createLLMProvider, llmSettingsFromEnv } from "./providers/llm";
+import { createSearchProvider, searchSettingsFromEnv } from "./providers/search";
+import { FileCache, defaultCacheDirectory } from "./utils/cache";
+import { JobManager, createResearchServer } from "./server";
+import { logger } from "./utils/logger";
+
+// Serve the researcher over HTTP. Providers, cache and checkpoints are configured from the
+// environment like the command line; PORT sets the port (default: 3000).
+// Jobs are checkpointed under their ID, so a failed job can be resumed with --resume <id>.
+function main(): void {
+  const researcher = createResearcher(
+    new FileCheckpointSaver(process.env.RESEARCH_CHECKPOINT_DIR ?? defaultCheckpointDirectory)
+  );
+  const jobs = new JobManager(researcher, {
+    configurable: {
+      llm: createLLMProvider(llmSettingsFromEnv()),
+      search: createSearchProvider(searchSettingsFromEnv()),
+      cache: new FileCache({ directory: process.env.RESEARCH_CACHE_DIR ?? defaultCacheDirectory }),
+    },
+  });
+
+  const port = Number(process.env.PORT ?? 3000);
+  createResearchServer(jobs).listen(port, () => {
+    logger.info(`Research API listening on http://localhost:${port}`);
+  });
+}
+
+main();
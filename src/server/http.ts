@@ -0,0 +1,123 @@
+import http from "http";
+import { JobManager, ResearchJob } from "./jobs";
+import { JobEvent, researchRequestSchema } from "../models/job";
+import { logger } from "../utils/logger";
+
+const maxBodyBytes = 1024 * 1024;
+
+// Error answered with its HTTP status and message
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Job as returned by the API: its progress events are served by the events endpoint
+function jobSummary(job: ResearchJob) {
+  const { events, ...summary } = job;
+  return summary;
+}
+
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBodyBytes) throw new HttpError(413, "Request body too large");
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+// Stream a job's events as server-sent events; a reconnecting client continues after Last-Event-ID
+function streamEvents(req: http.IncomingMessage, res: http.ServerResponse, jobs: JobManager, job: ResearchJob): void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+  });
+
+  const lastEventId = Number(req.headers["last-event-id"]);
+  const from = Number.isInteger(lastEventId) && lastEventId >= 0 ? lastEventId + 1 : 0;
+
+  let unsubscribe = () => {};
+  const write = (event: JobEvent, index: number) => {
+    res.write(`id: ${index}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (event.type === "end") {
+      unsubscribe();
+      res.end();
+    }
+  };
+  unsubscribe = jobs.subscribe(job.id, write, from);
+  req.on("close", () => unsubscribe());
+}
+
+async function route(req: http.IncomingMessage, res: http.ServerResponse, jobs: JobManager): Promise<void> {
+  const { pathname } = new URL(req.url ?? "/", "http://localhost");
+  const [, collection, id, sub, ...rest] = pathname.split("/");
+  if (collection !== "research" || rest.length > 0) throw new HttpError(404, "Not found");
+
+  // POST /research
+  if (id === undefined || id === "") {
+    if (req.method !== "POST") throw new HttpError(405, "Method not allowed");
+    const parsed = researchRequestSchema.safeParse(await readJson(req));
+    if (!parsed.success) {
+      throw new HttpError(400, parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; "));
+    }
+    const job = jobs.start(parsed.data);
+    sendJson(res, 202, jobSummary(job), { Location: `/research/${job.id}` });
+    return;
+  }
+
+  const job = jobs.get(id);
+  if (!job) throw new HttpError(404, `Unknown research job ${id}`);
+
+  // GET /research/:id/events
+  if (sub === "events") {
+    if (req.method !== "GET") throw new HttpError(405, "Method not allowed");
+    streamEvents(req, res, jobs, job);
+    return;
+  }
+  if (sub !== undefined) throw new HttpError(404, "Not found");
+
+  // GET and DELETE /research/:id
+  if (req.method === "GET") {
+    sendJson(res, 200, jobSummary(job));
+  } else if (req.method === "DELETE") {
+    if (!jobs.cancel(job.id)) throw new HttpError(409, `Research job ${job.id} is not running (${job.status})`);
+    sendJson(res, 200, jobSummary(job));
+  } else {
+    throw new HttpError(405, "Method not allowed");
+  }
+}
+
+// HTTP API over the job manager:
+//   POST   /research             start a job from {"topic": "...", ...options}; returns its ID
+//   GET    /research/:id         status and latest (final, once completed) state
+//   DELETE /research/:id         cancel a running job
+//   GET    /research/:id/events  progress as server-sent events
+export function createResearchServer(jobs: JobManager): http.Server {
+  return http.createServer((req, res) => {
+    route(req, res, jobs).catch(error => {
+      if (res.headersSent) {
+        res.end();
+      } else if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+      } else {
+        logger.error("Request failed", { error });
+        sendJson(res, 500, { error: "Internal server error" });
+      }
+    });
+  });
+}
@@ -0,0 +1,3 @@
+export { JobManager } from './jobs';
+export type { ResearchJob, JobManagerOptions } from './jobs';
+export { createResearchServer } from './http';
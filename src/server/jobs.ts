@@ -0,0 +1,133 @@
+import { randomUUID } from "crypto";
+import type { ResearchState, createResearcher } from "../graph";
+import { ResearchEvent } from "../models/events";
+import { JobEvent, JobStatus, ResearchRequest } from "../models/job";
+import { logger } from "../utils/logger";
+
+type Researcher = ReturnType<typeof createResearcher>;
+type Listener = (event: JobEvent, index: number) => void;
+
+export interface ResearchJob {
+  id: string; // Also the thread ID of the run's checkpoints
+  topic: string;
+  status: JobStatus;
+  createdAt: string;
+  finishedAt?: string;
+  error?: string;
+  state?: ResearchState; // Latest state; the final state once completed
+  events: JobEvent[];
+}
+
+export interface JobManagerOptions {
+  configurable?: Record<string, unknown>; // Shared by every job (providers, cache...)
+  maxFinishedJobs?: number; // Oldest finished jobs are forgotten beyond this (default: 100)
+}
+
+// Runs research jobs in the background, keeping their progress events for subscribers
+export class JobManager {
+  private jobs = new Map<string, ResearchJob>();
+  private controllers = new Map<string, AbortController>();
+  private listeners = new Map<string, Set<Listener>>();
+  private configurable: Record<string, unknown>;
+  private maxFinishedJobs: number;
+
+  constructor(private researcher: Researcher, options: JobManagerOptions = {}) {
+    this.configurable = options.configurable ?? {};
+    this.maxFinishedJobs = options.maxFinishedJobs ?? 100;
+  }
+
+  get(id: string): ResearchJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  start(request: ResearchRequest): ResearchJob {
+    const { topic, ...options } = request;
+    const job: ResearchJob = {
+      id: randomUUID(),
+      topic,
+      status: "running",
+      createdAt: new Date().toISOString(),
+      events: [],
+    };
+    this.jobs.set(job.id, job);
+
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    this.run(job, options, controller.signal).catch(error => logger.error(`Job ${job.id} failed to finish`, { error }));
+    return job;
+  }
+
+  // Stop a running job; returns false if it is not running
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    const controller = this.controllers.get(id);
+    if (!job || job.status !== "running" || !controller) return false;
+
+    controller.abort();
+    this.finish(job, "cancelled");
+    return true;
+  }
+
+  // Receive the job's events from index `from` on, then live ones; returns an unsubscribe function
+  subscribe(id: string, listener: Listener, from: number = 0): () => void {
+    const job = this.jobs.get(id);
+    if (!job) throw new Error(`Unknown job ${id}`);
+
+    job.events.slice(from).forEach((event, i) => listener(event, from + i));
+    if (job.status !== "running") return () => {};
+
+    const listeners = this.listeners.get(id) ?? new Set<Listener>();
+    listeners.add(listener);
+    this.listeners.set(id, listeners);
+    return () => listeners.delete(listener);
+  }
+
+  private async run(job: ResearchJob, options: Omit<ResearchRequest, "topic">, signal: AbortSignal): Promise<void> {
+    try {
+      const stream = await this.researcher.stream({ topic: job.topic }, {
+        streamMode: ["custom", "values"],
+        signal,
+        configurable: { ...this.configurable, ...options, thread_id: job.id },
+      });
+
+      for await (const [mode, chunk] of stream as AsyncIterable<[string, unknown]>) {
+        if (job.status !== "running") return;
+        if (mode === "custom") {
+          this.publish(job, chunk as ResearchEvent);
+        } else {
+          job.state = chunk as ResearchState;
+        }
+      }
+      this.finish(job, "completed");
+    } catch (error) {
+      this.finish(job, "failed", (error as Error).message);
+    }
+  }
+
+  private publish(job: ResearchJob, event: JobEvent): void {
+    job.events.push(event);
+    const index = job.events.length - 1;
+    this.listeners.get(job.id)?.forEach(listener => listener(event, index));
+  }
+
+  private finish(job: ResearchJob, status: JobStatus, error?: string): void {
+    if (job.status !== "running") return; // Already cancelled
+
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    if (error) job.error = error;
+    logger.info(`Job ${job.id} ${status}`, error ? { error } : {});
+
+    this.publish(job, { type: "end", status, ...(error ? { error } : {}) });
+    this.listeners.delete(job.id);
+    this.controllers.delete(job.id);
+    this.forgetOldJobs();
+  }
+
+  private forgetOldJobs(): void {
+    const finished = Array.from(this.jobs.values()).filter(job => job.status !== "running");
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.maxFinishedJobs))) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
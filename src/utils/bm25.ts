@@ -0,0 +1,68 @@
+// Split text into lowercase word tokens (letters and digits, any script)
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(token => token.length > 1);
+}
+
+export interface BM25Document<T> {
+  item: T;
+  text: string;
+}
+
+export interface BM25Match<T> {
+  item: T;
+  score: number;
+}
+
+// Okapi BM25 ranking over an in-memory set of documents
+export class BM25Index<T> {
+  private docs: Array<{ item: T; termFrequencies: Map<string, number>; length: number }> = [];
+  private documentFrequencies = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(documents: BM25Document<T>[], private k1: number = 1.2, private b: number = 0.75) {
+    let totalLength = 0;
+
+    for (const { item, text } of documents) {
+      const tokens = tokenize(text);
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+      }
+      for (const term of termFrequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) || 0) + 1);
+      }
+
+      this.docs.push({ item, termFrequencies, length: tokens.length });
+      totalLength += tokens.length;
+    }
+
+    this.averageLength = this.docs.length > 0 ? totalLength / this.docs.length : 0;
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  // Return the best matching documents, highest score first (documents scoring 0 are left out)
+  search(query: string, limit: number = 10): BM25Match<T>[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const matches: BM25Match<T>[] = [];
+
+    for (const doc of this.docs) {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = doc.termFrequencies.get(term);
+        if (!frequency) continue;
+
+        const documentFrequency = this.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (this.docs.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        const normalization = this.k1 * (1 - this.b + this.b * doc.length / (this.averageLength || 1));
+        score += idf * (frequency * (this.k1 + 1)) / (frequency + normalization);
+      }
+
+      if (score > 0) matches.push({ item: doc.item, score });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+}
@@ -0,0 +1,133 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface FileCacheOptions {
+  directory: string;
+  ttlMs?: number; // Entries older than this are ignored and removed (default: 7 days)
+  maxBytes?: number; // Oldest entries are evicted beyond this total size (default: 200 MB)
+}
+
+interface CacheEntry<T> {
+  key: unknown; // Kept readable to help inspect the cache
+  createdAt: number;
+  value: T;
+}
+
+export const defaultCacheDirectory = ".deep-research/cache";
+
+// Hash of any JSON-serializable key
+export function hashKey(key: unknown): string {
+  return createHash("sha256").update(JSON.stringify(key)).digest("hex");
+}
+
+// On-disk key/value cache, one JSON file per entry grouped by namespace,
+// with a time-to-live and a total size limit
+export class FileCache {
+  readonly directory: string;
+  private ttlMs: number;
+  private maxBytes: number;
+  // Sizes and creation times of the entries on disk, loaded on first write
+  private index?: Promise<Map<string, { size: number; createdAt: number }>>;
+
+  constructor(options: FileCacheOptions) {
+    this.directory = options.directory;
+    this.ttlMs = options.ttlMs ?? 7 * 24 * 60 * 60 * 1000;
+    this.maxBytes = options.maxBytes ?? 200 * 1024 * 1024;
+  }
+
+  private entryPath(namespace: string, key: unknown): string {
+    return path.join(this.directory, namespace, `${hashKey(key)}.json`);
+  }
+
+  async get<T>(namespace: string, key: unknown): Promise<T | undefined> {
+    const filePath = this.entryPath(namespace, key);
+
+    let entry: CacheEntry<T>;
+    try {
+      entry = JSON.parse(await fs.readFile(filePath, "utf8"));
+    } catch {
+      return undefined; // Missing or unreadable entries are misses
+    }
+
+    if (Date.now() - entry.createdAt > this.ttlMs) {
+      await this.remove(filePath);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set<T>(namespace: string, key: unknown, value: T): Promise<void> {
+    const filePath = this.entryPath(namespace, key);
+    const entry: CacheEntry<T> = { key, createdAt: Date.now(), value };
+    const data = JSON.stringify(entry);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data, "utf8");
+
+    const index = await this.getIndex();
+    index.set(filePath, { size: Buffer.byteLength(data), createdAt: entry.createdAt });
+    await this.evict(index);
+  }
+
+  // Remove every entry, or only those of one namespace
+  async clear(namespace?: string): Promise<void> {
+    await fs.rm(namespace ? path.join(this.directory, namespace) : this.directory, { recursive: true, force: true });
+    this.index = undefined;
+  }
+
+  private getIndex(): Promise<Map<string, { size: number; createdAt: number }>> {
+    if (!this.index) {
+      this.index = this.scan();
+    }
+    return this.index;
+  }
+
+  private async scan(): Promise<Map<string, { size: number; createdAt: number }>> {
+    const index = new Map<string, { size: number; createdAt: number }>();
+    let namespaces: string[] = [];
+    try {
+      namespaces = await fs.readdir(this.directory);
+    } catch {
+      return index;
+    }
+
+    for (const namespace of namespaces) {
+      const namespaceDir = path.join(this.directory, namespace);
+      const files = await fs.readdir(namespaceDir).catch(() => [] as string[]);
+      for (const file of files) {
+        const filePath = path.join(namespaceDir, file);
+        const stats = await fs.stat(filePath).catch(() => undefined);
+        if (stats?.isFile()) index.set(filePath, { size: stats.size, createdAt: stats.mtimeMs });
+      }
+    }
+    return index;
+  }
+
+  // Drop expired entries, then the oldest ones until the cache fits in maxBytes
+  private async evict(index: Map<string, { size: number; createdAt: number }>): Promise<void> {
+    const now = Date.now();
+    let total = 0;
+    for (const [filePath, { size, createdAt }] of index) {
+      if (now - createdAt > this.ttlMs) {
+        index.delete(filePath);
+        await this.remove(filePath);
+      } else {
+        total += size;
+      }
+    }
+    if (total <= this.maxBytes) return;
+
+    const oldestFirst = Array.from(index.entries()).sort((a, b) => a[1].createdAt - b[1].createdAt);
+    for (const [filePath, { size }] of oldestFirst) {
+      if (total <= this.maxBytes) break;
+      index.delete(filePath);
+      await this.remove(filePath);
+      total -= size;
+    }
+  }
+
+  private async remove(filePath: string): Promise<void> {
+    await fs.rm(filePath, { force: true });
+  }
+}
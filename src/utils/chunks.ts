@@ -0,0 +1,70 @@
+import { estimateTokens } from '../providers/llm/metered';
+import { BM25Index } from './bm25';
+
+// Cut text to about maxTokens, at a word boundary
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+  const cut = text.substring(0, Math.max(0, maxTokens * 4));
+  const boundary = cut.lastIndexOf(" ");
+  return `${(boundary > cut.length / 2 ? cut.substring(0, boundary) : cut).trimEnd()}…`;
+}
+
+// Split a piece of text that is too long for one chunk: by sentences, then by length
+function splitLongText(text: string, maxTokens: number): string[] {
+  const parts: string[] = [];
+  for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+    for (let start = 0; start < sentence.length; start += maxTokens * 4) {
+      parts.push(sentence.substring(start, start + maxTokens * 4));
+    }
+  }
+  return parts;
+}
+
+// Split a document into chunks of at most about maxTokens, grouping whole paragraphs
+// (and, for paragraphs longer than a chunk, whole sentences) where possible
+export function splitIntoChunks(text: string, maxTokens: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length > 0);
+  for (const paragraph of paragraphs) {
+    const pieces = estimateTokens(paragraph) > maxTokens ? splitLongText(paragraph, maxTokens) : [paragraph];
+    for (const piece of pieces) {
+      if (current && estimateTokens(current) + estimateTokens(piece) > maxTokens) {
+        chunks.push(current);
+        current = "";
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+// The maxChunks chunks that best match the query (BM25), in document order.
+// When no chunk matches, the document's first chunks are taken.
+export function selectChunks(chunks: string[], query: string, maxChunks: number): string[] {
+  if (chunks.length <= maxChunks) return chunks;
+
+  const index = new BM25Index(chunks.map((text, position) => ({ item: position, text })));
+  const positions = index.search(query, maxChunks).map(match => match.item);
+  if (positions.length === 0) return chunks.slice(0, maxChunks);
+  return positions.sort((a, b) => a - b).map(position => chunks[position]);
+}
+
+// Split a token budget among texts: those that fit in an equal share keep their length,
+// and what they leave over is shared among the longer ones. Returns each text's allowance.
+export function shareBudget(texts: string[], maxTokens: number): number[] {
+  const allowances = new Array<number>(texts.length).fill(0);
+  const order = texts.map((text, position) => ({ position, tokens: estimateTokens(text) }))
+    .sort((a, b) => a.tokens - b.tokens);
+
+  let remaining = maxTokens;
+  order.forEach(({ position, tokens }, i) => {
+    const share = Math.floor(remaining / (order.length - i));
+    allowances[position] = Math.min(tokens, share);
+    remaining -= allowances[position];
+  });
+  return allowances;
+}
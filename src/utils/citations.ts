@@ -0,0 +1,74 @@
+import { Report } from '../models/report';
+import { SearchResult } from '../models/search';
+import { referencesHeadings } from './language';
+
+// Headings of the references section written by the model, in any report language
+export const referencesHeading = new RegExp(
+  `^#+\\s*(${[...referencesHeadings, "Sources", "Fontes", "Fuentes", "Bibliography", "Bibliografia", "Bibliographie"].join("|")})\\b`, "im");
+
+// Citation groups such as [Ref. 3], [Ref. 1, 4] or [Ref. 1-3]
+export const citationGroup = /\[Ref\.[^\]]*\]/gi;
+
+// Ranges longer than this are read as their two ends, not as every number between them
+const maxCitationRange = 20;
+
+// Reference numbers cited by a citation group, with ranges such as 1-3 expanded
+export function citationMarkers(group: string): number[] {
+  const markers: number[] = [];
+  for (const [, first, last] of group.matchAll(/(\d+)(?:\s*[-–]\s*(\d+))?/g)) {
+    const start = Number(first);
+    const end = last === undefined ? start : Number(last);
+    if (end > start && end - start <= maxCitationRange) {
+      for (let number = start; number <= end; number++) markers.push(number);
+    } else {
+      markers.push(start, ...(end !== start ? [end] : []));
+    }
+  }
+  return markers;
+}
+
+// The report text without the references section written by the model
+export function reportBody(content: string): string {
+  const headingMatch = content.match(referencesHeading);
+  return headingMatch ? content.slice(0, headingMatch.index).trimEnd() : content;
+}
+
+// Sources cited in the report body with their reference numbers, in number order.
+// A report without citations lists every source it was written from.
+export function citedSources(report: Report): Array<{ number: number; source: SearchResult }> {
+  const numbers = new Set<number>();
+  for (const group of reportBody(report.content).match(citationGroup) || []) {
+    citationMarkers(group).forEach(number => numbers.add(number));
+  }
+
+  const cited = report.sources
+    .map((source, i) => ({ number: i + 1, source }))
+    .filter(({ source }) => source.link);
+  return numbers.size > 0 ? cited.filter(({ number }) => numbers.has(number)) : cited;
+}
+
+// Reference numbers in the order of their first citation in the texts, followed by the
+// numbers of the sources never cited, so that the references read [Ref. 1], [Ref. 2]...
+export function citationOrder(texts: string[], count: number): number[] {
+  const order: number[] = [];
+  for (const text of texts) {
+    for (const group of text.match(citationGroup) || []) {
+      for (const number of citationMarkers(group)) {
+        if (number >= 1 && number <= count && !order.includes(number)) order.push(number);
+      }
+    }
+  }
+  for (let number = 1; number <= count; number++) {
+    if (!order.includes(number)) order.push(number);
+  }
+  return order;
+}
+
+// Rewrite the citation markers of a text with new numbers; numbers without a new one
+// (markers that point to no source) are kept. Ranges are written out, as their numbers
+// need not follow each other once renumbered.
+export function renumberCitations(text: string, numbers: Map<number, number>): string {
+  return text.replace(citationGroup, group => /\d\s*[-–]\s*\d/.test(group)
+    ? `[Ref. ${citationMarkers(group).map(number => numbers.get(number) ?? number).join(", ")}]`
+    : group.replace(/\d+/g, number => String(numbers.get(Number(number)) ?? number)));
+}
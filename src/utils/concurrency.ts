@@ -0,0 +1,64 @@
+// Runs tasks with at most `concurrency` of them in flight; the others wait their turn in order
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createLimiter(concurrency: number): Limiter {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer, got ${concurrency}`);
+  }
+
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  const release = () => {
+    active--;
+    const next = waiting.shift();
+    if (next) next();
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+      const run = () => {
+        active++;
+        task().then(resolve, reject).then(release, release);
+      };
+
+      if (active < concurrency) {
+        run();
+      } else {
+        waiting.push(run);
+      }
+    });
+  };
+}
+
+// Map over items with bounded concurrency; results keep the order of the items
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number | Limiter,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const limit = typeof concurrency === "number" ? createLimiter(concurrency) : concurrency;
+  return Promise.all(items.map((item, index) => limit(() => fn(item, index))));
+}
+
+// Limiters shared by the tasks running under the same key, such as the parallel branches of a run.
+// A limiter is dropped once no task holds it; the next task under its key starts a new one.
+const sharedLimiters = new Map<string, { limit: Limiter; holders: number }>();
+
+export async function withSharedLimiter<T>(
+  key: string,
+  concurrency: number,
+  task: (limit: Limiter) => Promise<T>
+): Promise<T> {
+  let shared = sharedLimiters.get(key);
+  if (!shared) {
+    shared = { limit: createLimiter(concurrency), holders: 0 };
+    sharedLimiters.set(key, shared);
+  }
+  shared.holders++;
+  try {
+    return await task(shared.limit);
+  } finally {
+    if (--shared.holders === 0) sharedLimiters.delete(key);
+  }
+}
@@ -0,0 +1,65 @@
+import type { SearchResult } from '../models/search';
+import { hashKey } from './cache';
+import { canonicalizeUrl } from './urls';
+import { minHashSignature, signatureSimilarity } from './minhash';
+
+// Stable ID of a source: the same page gets the same ID in every iteration and run
+export function sourceId(link: string): string {
+  return hashKey(canonicalizeUrl(link)).substring(0, 10);
+}
+
+interface IndexedSource {
+  record: SearchResult;
+  signature?: number[];
+}
+
+// Sources found so far, merged so that each page appears once: results whose canonical URLs
+// match, or whose contents are near-duplicates (syndicated or mirrored copies), become a single
+// record listing every query that found it and the links of its copies
+export class SourceIndex {
+  private byUrl = new Map<string, IndexedSource>();
+  private sources: IndexedSource[] = [];
+
+  // threshold: estimated similarity of the contents from which two pages are the same source
+  constructor(private threshold: number = 0.8) {}
+
+  // Add a result found by a query. Returns the record that represents it, and whether that
+  // record already existed. Records are copies owned by the index; merges update them.
+  add(result: SearchResult, query?: string): { record: SearchResult; duplicate: boolean } {
+    const url = canonicalizeUrl(result.link);
+    const text = result.rawContent || result.content;
+    const signature = text ? minHashSignature(text) : undefined;
+    const existing = this.byUrl.get(url) ?? (signature ? this.findSimilar(signature) : undefined);
+
+    if (existing) {
+      const record = existing.record;
+      for (const other of result.queries ?? (query ? [query] : [])) {
+        if (!record.queries?.includes(other)) record.queries = [...record.queries ?? [], other];
+      }
+      for (const link of [result.link, ...result.duplicates ?? []]) {
+        if (link !== record.link && !record.duplicates?.includes(link)) record.duplicates = [...record.duplicates ?? [], link];
+      }
+      // Later copies at the same address are found without comparing contents
+      this.byUrl.set(url, existing);
+      return { record, duplicate: true };
+    }
+
+    const queries = result.queries ?? (query ? [query] : undefined);
+    const indexed = {
+      record: { ...result, id: result.id ?? sourceId(result.link), ...(queries ? { queries } : {}) },
+      signature,
+    };
+    this.byUrl.set(url, indexed);
+    this.sources.push(indexed);
+    return { record: indexed.record, duplicate: false };
+  }
+
+  get records(): SearchResult[] {
+    return this.sources.map(source => source.record);
+  }
+
+  private findSimilar(signature: number[]): IndexedSource | undefined {
+    return this.sources.find(source =>
+      source.signature && signatureSimilarity(source.signature, signature) >= this.threshold);
+  }
+}
@@ -0,0 +1,31 @@
+import { RunnableConfig } from "@langchain/core/runnables";
+import { LangGraphRunnableConfig, isGraphInterrupt } from "@langchain/langgraph";
+import { ResearchEvent } from "../models/events";
+
+// Send a progress event to the run's "custom" stream and to config.configurable.onEvent;
+// a no-op when nobody listens
+export function emit(config: RunnableConfig | undefined, event: ResearchEvent): void {
+  (config as LangGraphRunnableConfig | undefined)?.writer?.(event);
+  const onEvent = config?.configurable?.onEvent;
+  if (typeof onEvent === "function") onEvent(event);
+}
+
+// Wrap a node so that it reports when it starts and finishes, and why it failed.
+// Review pauses are interrupts, not failures.
+export function withEvents<S, U>(
+  node: string,
+  fn: (state: S, config?: RunnableConfig) => Promise<U>
+): (state: S, config?: RunnableConfig) => Promise<U> {
+  return async (state, config) => {
+    emit(config, { type: "node_started", node });
+    let update: U;
+    try {
+      update = await fn(state, config);
+    } catch (error) {
+      if (!isGraphInterrupt(error)) emit(config, { type: "error", node, message: (error as Error).message });
+      throw error;
+    }
+    emit(config, { type: "node_finished", node });
+    return update;
+  };
+}
@@ -0,0 +1,122 @@
+import { ResearchLanguages } from '../models/language';
+
+// Languages the topic can be detected in, and whose headings are translated
+export const languageNames: Record<string, string> = {
+  en: "English",
+  pt: "Portuguese",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+};
+
+// Common words of each language; a word shared by several languages counts for each of them
+const markers: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "is", "are", "what", "how", "why", "with", "for", "in", "on", "does", "which", "best"],
+  pt: ["o", "os", "da", "do", "das", "dos", "em", "é", "são", "que", "como", "para", "uma", "não", "qual", "quais", "no", "na", "com", "por"],
+  es: ["el", "los", "las", "del", "es", "son", "que", "cómo", "para", "una", "qué", "cuál", "cuáles", "en", "con", "por", "y", "la"],
+  fr: ["le", "les", "des", "du", "est", "sont", "que", "comment", "pour", "une", "et", "la", "en", "avec", "quel", "quels", "quelle", "dans"],
+  de: ["der", "die", "das", "und", "ist", "sind", "wie", "für", "mit", "ein", "eine", "nicht", "von", "zu", "im", "den", "dem", "welche"],
+  it: ["il", "gli", "della", "delle", "dei", "è", "sono", "che", "come", "per", "una", "con", "di", "e", "la", "nel", "quali"],
+};
+
+// Letters that (almost) only one language uses
+const letterHints: Array<[RegExp, string]> = [
+  [/[ãõ]|çõ|ção/g, "pt"],
+  [/[ñ¿¡]/g, "es"],
+  [/[ßäöü]/g, "de"],
+];
+
+const separators = new RegExp("[^\\p{L}]+", "u");
+
+// Language of a text, as an ISO 639-1 code, from its common words and letters. Texts with
+// neither (such as a few technical terms) are taken as English.
+export function detectLanguage(text: string): string {
+  const words = text.toLowerCase().split(separators).filter(word => word.length > 0);
+  const scores = new Map<string, number>(Object.keys(markers).map(code => [code, 0]));
+  for (const [code, list] of Object.entries(markers)) {
+    const common = new Set(list);
+    scores.set(code, words.filter(word => common.has(word)).length);
+  }
+  for (const [pattern, code] of letterHints) {
+    scores.set(code, scores.get(code)! + 2 * (text.toLowerCase().match(pattern)?.length ?? 0));
+  }
+
+  // Ties go to the first language, English
+  let best = "en";
+  for (const [code, score] of scores) {
+    if (score > scores.get(best)!) best = code;
+  }
+  return best;
+}
+
+// ISO 639-1 code of a language given as a code (with or without a region, such as pt-BR) or
+// as an English name; undefined for languages not in languageNames
+export function languageCode(language: string): string | undefined {
+  const value = language.trim().toLowerCase();
+  const base = value.split(/[-_]/)[0];
+  if (base in languageNames) return base;
+  return Object.keys(languageNames).find(code => languageNames[code].toLowerCase() === value);
+}
+
+// Name of a language for the prompts; languages not in languageNames are named as given
+export function languageName(language: string): string {
+  const code = languageCode(language);
+  return code ? languageNames[code] : language.trim();
+}
+
+// Languages of a run. "auto" writes the report in the language of the topic; the topic's
+// language is always searched, followed by the other query languages (each once).
+export function resolveLanguages(topic: string, language: string = "auto", queryLanguages: string[] = []): ResearchLanguages {
+  const detected = detectLanguage(topic);
+  const report = language === "auto" ? detected : language;
+  const queries: string[] = [];
+  for (const candidate of [detected, ...queryLanguages]) {
+    if (!queries.some(other => languageName(other) === languageName(candidate))) queries.push(candidate);
+  }
+  return { topic: detected, report, queries };
+}
+
+// Headings the writer adds itself, in the languages of languageNames
+export interface ReportHeadings {
+  introduction: string;
+  conclusion: string;
+  references: string;
+}
+
+const headings: Record<string, ReportHeadings> = {
+  en: { introduction: "Introduction", conclusion: "Conclusion", references: "References" },
+  pt: { introduction: "Introdução", conclusion: "Conclusão", references: "Referências" },
+  es: { introduction: "Introducción", conclusion: "Conclusión", references: "Referencias" },
+  fr: { introduction: "Introduction", conclusion: "Conclusion", references: "Références" },
+  de: { introduction: "Einleitung", conclusion: "Fazit", references: "Literatur" },
+  it: { introduction: "Introduzione", conclusion: "Conclusione", references: "Riferimenti" },
+};
+
+// Headings of a report in its language; English for reports without one, or in another language
+export function reportHeadings(language?: string): ReportHeadings {
+  return headings[(language && languageCode(language)) || "en"] ?? headings.en;
+}
+
+// Every translation of the references heading
+export const referencesHeadings = Array.from(new Set(Object.values(headings).map(heading => heading.references)));
+
+// Instruction for the summarizer: summaries of pages in any language are written in the report's
+export function summaryLanguageInstruction(language: string): string {
+  return `Write the summary in ${languageName(language)}, whatever the language of the content.`;
+}
+
+// Instruction for the writer. Titles and quotations stay as the sources give them, so that
+// the citations can be traced back to them.
+export function reportLanguageInstruction(language: string): string {
+  return `Write the report in ${languageName(language)}, whatever the language of the sources. `
+    + `Keep the titles of the sources and any quotation in their original language.`;
+}
+
+// Instruction for the planner and the evaluator on the languages of their queries
+export function queryLanguageInstruction(languages: string[]): string {
+  const names = languages.map(languageName);
+  return names.length === 1
+    ? `Write the queries in ${names[0]}.`
+    : `Write every query in each of these languages: ${names.join(", ")}.`;
+}
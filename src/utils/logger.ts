@@ -0,0 +1,75 @@
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+export type LogFormat = "text" | "json";
+export type LogFields = Record<string, unknown>;
+
+export const logLevels: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+export const logFormats: LogFormat[] = ["text", "json"];
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel; // Messages below this level are dropped (default: info)
+  format?: LogFormat; // One line of text or one JSON object per message (default: text)
+  write?: (line: string) => void; // Where lines go (default: stderr, keeping stdout for the report)
+}
+
+// Errors are logged by message; other values as they are
+function fieldValue(value: unknown): unknown {
+  return value instanceof Error ? value.message : value;
+}
+
+function formatText(level: LogLevel, message: string, fields: LogFields): string {
+  const prefix = level === "warn" ? "Warning: " : level === "error" ? "Error: " : "";
+  const details = Object.entries(fields)
+    .map(([key, value]) => {
+      const shown = fieldValue(value);
+      return `${key}=${typeof shown === "string" ? shown : JSON.stringify(shown)}`;
+    });
+  return `${prefix}${message}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+}
+
+function formatJson(level: LogLevel, message: string, fields: LogFields): string {
+  const values = Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, fieldValue(value)]));
+  return JSON.stringify({ time: new Date().toISOString(), level, message, ...values });
+}
+
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const threshold = logLevels.indexOf(options.level ?? "info");
+  const format = options.format === "json" ? formatJson : formatText;
+  const write = options.write ?? (line => process.stderr.write(line + "\n"));
+
+  const log = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    if (logLevels.indexOf(level) >= threshold) write(format(level, message, fields));
+  };
+  return { debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+}
+
+// Logger options from the environment: LOG_LEVEL (default: info) and LOG_FORMAT (default: text)
+export function loggerOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): LoggerOptions {
+  const level = env.LOG_LEVEL as LogLevel | undefined;
+  const format = env.LOG_FORMAT as LogFormat | undefined;
+  return {
+    level: level && logLevels.includes(level) ? level : undefined,
+    format: format && logFormats.includes(format) ? format : undefined,
+  };
+}
+
+let current: Logger = createLogger(loggerOptionsFromEnv());
+
+// Replace the logger used by every module, e.g. to forward messages to another logging library
+export function setLogger(next: Logger): void {
+  current = next;
+}
+
+// The logger every module writes to; it delegates to the one set last
+export const logger: Logger = {
+  debug: (message, fields) => current.debug(message, fields),
+  info: (message, fields) => current.info(message, fields),
+  warn: (message, fields) => current.warn(message, fields),
+  error: (message, fields) => current.error(message, fields),
+};
@@ -0,0 +1,55 @@
+// MinHash signatures of texts, to find near-duplicate pages (e.g. syndicated copies of an article)
+// without comparing their full contents
+
+const signatureSize = 64;
+const shingleSize = 5; // Words per shingle
+
+// Fixed multipliers and offsets of the hash functions, so that signatures are stable across runs
+const seeds = Array.from({ length: signatureSize }, (_, i) => ({
+  a: (Math.imul(i + 1, 0x9e3779b1) | 1) >>> 0,
+  b: Math.imul(i + 7, 0x85ebca6b) >>> 0,
+}));
+
+// 32-bit FNV-1a hash of a string
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Hashes of the overlapping word sequences of a text, ignoring case and punctuation
+export function shingles(text: string, size: number = shingleSize): Set<number> {
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0);
+  const hashes = new Set<number>();
+  for (let i = 0; i + size <= words.length; i++) {
+    hashes.add(fnv1a(words.slice(i, i + size).join(" ")));
+  }
+  return hashes;
+}
+
+// Signature of a text, or undefined when it is too short to have shingles
+export function minHashSignature(text: string): number[] | undefined {
+  const hashes = shingles(text);
+  if (hashes.size === 0) return undefined;
+
+  const signature = new Array<number>(signatureSize).fill(0xffffffff);
+  for (const hash of hashes) {
+    for (let i = 0; i < signatureSize; i++) {
+      const value = (Math.imul(seeds[i].a, hash) + seeds[i].b) >>> 0;
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+}
+
+// Estimated Jaccard similarity of the shingles of two texts, from 0 to 1
+export function signatureSimilarity(a: number[], b: number[]): number {
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+}
@@ -0,0 +1,117 @@
+import { SearchResult } from '../models/search';
+import { PolicyMatch, RejectedSource, SourcePolicy, TrustTier } from '../models/policy';
+import { SearchFilters } from '../providers/search/types';
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+// Host name of a web address, without "www."; empty for links that are not web addresses (local files),
+// which the domain rules do not apply to
+export function domainOf(link: string): string {
+  try {
+    const url = new URL(link);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return "";
+    return url.hostname.toLowerCase().replace(/^www\d?\./, "");
+  } catch {
+    return "";
+  }
+}
+
+// The first pattern that covers a domain: the domain itself, a parent domain or a suffix such as "gov"
+export function matchDomain(domain: string, patterns: string[] = []): string | undefined {
+  return patterns.find(pattern => {
+    const suffix = pattern.trim().toLowerCase().replace(/^\*?\./, "");
+    return suffix.length > 0 && (domain === suffix || domain.endsWith(`.${suffix}`));
+  });
+}
+
+// What the policy makes of a source: its trust tier and the rules it matched, or the rule that rejects it
+export function checkSource(
+  source: SearchResult,
+  policy: SourcePolicy,
+  now: number = Date.now()
+): PolicyMatch & { rejected?: string } {
+  const rules: string[] = [];
+  let tier: TrustTier = "standard";
+  const domain = domainOf(source.link);
+
+  if (domain) {
+    const excluded = matchDomain(domain, policy.excludeDomains);
+    if (excluded) return { tier, rules, rejected: `excludeDomains: ${excluded}` };
+    if (policy.includeDomains?.length) {
+      const included = matchDomain(domain, policy.includeDomains);
+      if (!included) return { tier, rules, rejected: `includeDomains: ${domain} is not listed` };
+      rules.push(`includeDomains: ${included}`);
+    }
+    const trusted = matchDomain(domain, policy.trustedDomains);
+    const untrusted = trusted ? undefined : matchDomain(domain, policy.untrustedDomains);
+    if (trusted) {
+      tier = "trusted";
+      rules.push(`trustedDomains: ${trusted}`);
+    } else if (untrusted) {
+      tier = "untrusted";
+      rules.push(`untrustedDomains: ${untrusted}`);
+    }
+  }
+
+  if (policy.maxAgeDays !== undefined) {
+    const published = source.publishedDate ? Date.parse(source.publishedDate) : NaN;
+    if (Number.isNaN(published)) {
+      rules.push("maxAgeDays: no publication date");
+    } else {
+      const date = new Date(published).toISOString().slice(0, 10);
+      const age = Math.floor((now - published) / dayMs);
+      if (age > policy.maxAgeDays) return { tier, rules, rejected: `maxAgeDays: published ${date}, ${age} days ago` };
+      rules.push(`maxAgeDays: published ${date}`);
+    }
+  }
+  return { tier, rules };
+}
+
+// Split the results of a query into the sources the policy allows, each with what it matched,
+// and those it rejects
+export function applySourcePolicy(
+  results: SearchResult[],
+  query: string,
+  policy: SourcePolicy,
+  now: number = Date.now()
+): { allowed: SearchResult[]; rejected: RejectedSource[] } {
+  const allowed: SearchResult[] = [];
+  const rejected: RejectedSource[] = [];
+  for (const result of results) {
+    const { rejected: rule, ...match } = checkSource(result, policy, now);
+    if (rule) {
+      rejected.push({ title: result.title, link: result.link, query, rule });
+    } else {
+      allowed.push({ ...result, policy: match });
+    }
+  }
+  return { allowed, rejected };
+}
+
+// The parts of the policy a provider can apply to its own search, so that rejected sources do not
+// take the places of allowed ones. The policy is still checked on every result.
+export function searchFilters(policy: SourcePolicy): SearchFilters {
+  const age = policy.maxAgeDays;
+  const timeRange = age === undefined ? undefined
+    : age <= 1 ? "day" : age <= 7 ? "week" : age <= 31 ? "month" : age <= 366 ? "year" : undefined;
+  return {
+    ...(policy.includeDomains?.length ? { includeDomains: policy.includeDomains } : {}),
+    ...(policy.excludeDomains?.length ? { excludeDomains: policy.excludeDomains } : {}),
+    ...(timeRange ? { timeRange } : {}),
+    ...(policy.searchTopic ? { topic: policy.searchTopic } : {}),
+  };
+}
+
+// Predicate that keeps at most maxPerDomain sources of each domain, in the order it is called
+// (0 means no cap; local files are not capped)
+export function domainCap(maxPerDomain: number = 0): (source: SearchResult) => boolean {
+  const counts = new Map<string, number>();
+  return source => {
+    const domain = domainOf(source.link);
+    if (maxPerDomain <= 0 || !domain) return true;
+    const count = counts.get(domain) ?? 0;
+    if (count >= maxPerDomain) return false;
+    counts.set(domain, count + 1);
+    return true;
+  };
+}
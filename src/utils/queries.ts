@@ -0,0 +1,51 @@
+// Words that do not change what a query searches for (English and Portuguese)
+const stopwords = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "how", "in", "is", "it", "of", "on", "or",
+  "the", "to", "vs", "what", "when", "where", "which", "who", "why", "with",
+  "o", "os", "as", "um", "uma", "e", "de", "do", "da", "dos", "das", "em", "no", "na", "nos", "nas",
+  "para", "por", "com", "que", "qual", "quais", "como",
+]);
+
+const separators = new RegExp("[^\\p{L}\\p{N}]+", "u");
+
+// Distinct meaningful tokens of a query: lowercased, without accents, stopwords or plural "s"
+export function normalizeQuery(query: string): string[] {
+  const tokens = query
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(separators)
+    .filter(token => token.length > 0 && !stopwords.has(token))
+    .map(token => token.length > 2 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token);
+  return Array.from(new Set(tokens)).sort();
+}
+
+// Jaccard similarity of the normalized tokens of two queries, from 0 to 1
+export function querySimilarity(a: string, b: string): number {
+  const tokensA = normalizeQuery(a);
+  const tokensB = new Set(normalizeQuery(b));
+  if (tokensA.length === 0 || tokensB.size === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  }
+  const shared = tokensA.filter(token => tokensB.has(token)).length;
+  return shared / (tokensA.length + tokensB.size - shared);
+}
+
+// Drop the queries that repeat, or nearly repeat, an earlier query or one kept before them
+export function suppressDuplicateQueries(
+  queries: string[],
+  previous: string[],
+  threshold: number = 0.8
+): { queries: string[]; suppressed: Array<{ query: string; duplicateOf: string }> } {
+  const kept: string[] = [];
+  const suppressed: Array<{ query: string; duplicateOf: string }> = [];
+  for (const query of queries) {
+    const duplicateOf = [...previous, ...kept].find(other => querySimilarity(query, other) >= threshold);
+    if (duplicateOf !== undefined) {
+      suppressed.push({ query, duplicateOf });
+    } else {
+      kept.push(query);
+    }
+  }
+  return { queries: kept, suppressed };
+}
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { LLMProvider, GenerateRequest, JsonSchema } from "../providers/llm";
+import { logger } from "./logger";
+
+// Raised when the model's replies still do not match the schema after every repair attempt
+export class StructuredOutputError extends Error {
+  constructor(message: string, public lastText: string) {
+    super(message);
+    this.name = "StructuredOutputError";
+  }
+}
+
+export interface StructuredRequest<T> extends Omit<GenerateRequest, "responseSchema"> {
+  schema: z.ZodType<T>;
+  maxAttempts?: number; // First attempt included (default: 3)
+}
+
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { target: "openApi3" }) as JsonSchema;
+  return jsonSchema;
+}
+
+// Read JSON from a reply, tolerating a markdown code fence around it
+function parseJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  return JSON.parse(fenced ? fenced[1] : text.trim());
+}
+
+// Generate a reply validated against a zod schema. The schema is passed to the provider for
+// native JSON mode; an invalid reply is sent back with the validation errors to be repaired.
+export async function generateStructured<T>(llm: LLMProvider, request: StructuredRequest<T>): Promise<T> {
+  const { schema, maxAttempts = 3, ...generateRequest } = request;
+  const responseSchema = toJsonSchema(schema);
+  const prompt = `${request.prompt}\n\nRespond with ONLY a JSON object matching this JSON schema:\n${JSON.stringify(responseSchema)}`;
+
+  let text = "";
+  let problem = "";
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await llm.generate({
+      ...generateRequest,
+      responseSchema,
+      prompt: attempt === 1
+        ? prompt
+        : `${prompt}\n\nYour previous response was invalid (${problem}):\n${text}\n\nReply again with ONLY the corrected JSON object.`,
+    });
+    text = response.text;
+
+    let data: unknown;
+    try {
+      data = parseJson(text);
+    } catch (error) {
+      problem = `not valid JSON: ${(error as Error).message}`;
+      logger.warn(`Invalid ${request.role} response (attempt ${attempt}/${maxAttempts}): ${problem}`);
+      logger.debug("Invalid response", { text });
+      continue;
+    }
+
+    const parsed = schema.safeParse(data);
+    if (parsed.success) return parsed.data;
+    problem = parsed.error.issues.map(issue => `${issue.path.join(".") || "response"}: ${issue.message}`).join("; ");
+    logger.warn(`Invalid ${request.role} response (attempt ${attempt}/${maxAttempts}): ${problem}`);
+    logger.debug("Invalid response", { text });
+  }
+
+  throw new StructuredOutputError(`No valid ${request.role} response after ${maxAttempts} attempts: ${problem}`, text);
+}
@@ -0,0 +1,39 @@
+// Query parameters that only track where a visitor came from
+const trackingParams = new Set([
+  "fbclid", "gclid", "dclid", "msclkid", "yclid", "igshid", "mc_cid", "mc_eid", "_ga", "_gl",
+  "ref", "ref_src", "ref_url", "referrer", "source", "cmpid", "ocid", "spm", "amp", "outputtype",
+]);
+
+// Canonical form of a web address, so that variants of one page compare equal:
+// https, no "www." or "amp." prefix, no tracking parameters, fragment, AMP path or trailing slash.
+// Links that are not http(s) URLs (local files, placeholders) are returned as they are.
+export function canonicalizeUrl(link: string): string {
+  let url: URL;
+  try {
+    url = new URL(link.trim());
+  } catch {
+    return link;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return link;
+
+  // Pages served from Google's AMP cache: https://www-example-com.cdn.ampproject.org/c/s/www.example.com/path
+  const ampCache = url.hostname.endsWith(".cdn.ampproject.org")
+    ? url.pathname.match(/^\/[a-z]\/(?:s\/)?([^/]+)(\/.*)?$/)
+    : null;
+  let host = ampCache ? ampCache[1] : url.hostname;
+  let path = ampCache ? ampCache[2] || "/" : url.pathname;
+
+  host = host.toLowerCase().replace(/^(www\d?|amp)\./, "");
+  path = path
+    .replace(/\/amp(\.html)?\/?$/i, "")
+    .replace(/\.amp(\.html?)?$/i, (_, extension) => extension || "")
+    .replace(/\/+$/, "");
+
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => !name.toLowerCase().startsWith("utm_") && !trackingParams.has(name.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+
+  const port = url.port && !ampCache ? `:${url.port}` : "";
+  return `https://${host}${port}${path}${search}`;
+}
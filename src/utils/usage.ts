@@ -0,0 +1,163 @@
+import { UsageCall } from "../providers/llm";
+import { Budget, RunUsage, UsageEntry, UsageTotals } from "../models/usage";
+
+export const defaultBudgetReserve = 0.1;
+
+// Usage of a run that starts now
+export function startUsage(now: number = Date.now()): RunUsage {
+  return {
+    startedAt: now,
+    searchCalls: 0,
+    entries: [],
+    totals: { inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0, llmCalls: 0, searchCalls: 0, elapsedMs: 0 },
+  };
+}
+
+// Add the model and search calls made by a node to the usage of the run.
+// Calls are grouped by node, iteration and model.
+export function addUsage(
+  usage: RunUsage | undefined,
+  node: string,
+  iteration: number,
+  calls: UsageCall[],
+  searchCalls: number = 0,
+  now: number = Date.now()
+): RunUsage {
+  const base = usage ?? startUsage(now);
+  const entries = base.entries.map(entry => ({ ...entry }));
+  for (const call of calls) {
+    let entry = entries.find(e => e.node === node && e.iteration === iteration && e.model === call.model);
+    if (!entry) {
+      entry = { node, iteration, model: call.model, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+      entries.push(entry);
+    }
+    entry.calls += 1;
+    entry.inputTokens += call.inputTokens;
+    entry.outputTokens += call.outputTokens;
+    entry.cost += call.cost;
+  }
+
+  const next = { ...base, entries, searchCalls: base.searchCalls + searchCalls };
+  return { ...next, totals: usageTotals(next, now) };
+}
+
+// Usage of the run once branches that ran side by side, each starting from `base`, are done:
+// what every branch added to `base` is added up
+export function mergeUsage(base: RunUsage | undefined, branches: RunUsage[], now: number = Date.now()): RunUsage {
+  const start = base ?? startUsage(now);
+  const sameEntry = (a: UsageEntry, b: UsageEntry) => a.node === b.node && a.iteration === b.iteration && a.model === b.model;
+  const entries = start.entries.map(entry => ({ ...entry }));
+  let searchCalls = start.searchCalls;
+
+  for (const usage of branches) {
+    for (const entry of usage.entries) {
+      const before = start.entries.find(e => sameEntry(e, entry));
+      const calls = entry.calls - (before?.calls ?? 0);
+      if (calls <= 0) continue;
+
+      let merged = entries.find(e => sameEntry(e, entry));
+      if (!merged) {
+        merged = { ...entry, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+        entries.push(merged);
+      }
+      merged.calls += calls;
+      merged.inputTokens += entry.inputTokens - (before?.inputTokens ?? 0);
+      merged.outputTokens += entry.outputTokens - (before?.outputTokens ?? 0);
+      merged.cost += entry.cost - (before?.cost ?? 0);
+    }
+    searchCalls += usage.searchCalls - start.searchCalls;
+  }
+
+  const next = { ...start, entries, searchCalls };
+  return { ...next, totals: usageTotals(next, now) };
+}
+
+// Shares of a budget for branches that run side by side from `usage`: each may use what was used
+// so far plus its part of what is left. Time is not shared out, as the branches run at once.
+export function splitBudget(budget: Budget, usage: RunUsage | undefined, parts: number): Budget[] {
+  const totals = usage ? usageTotals(usage) : undefined;
+  const share = (max: number | undefined, used: number) =>
+    max === undefined ? undefined : used + Math.max(0, max - used) / parts;
+
+  return Array.from({ length: parts }, (_, i) => {
+    const searchCalls = usage?.searchCalls ?? 0;
+    const searchesLeft = Math.max(0, (budget.maxSearchCalls ?? 0) - searchCalls);
+    return {
+      ...budget,
+      maxTokens: share(budget.maxTokens, totals?.totalTokens ?? 0),
+      maxCost: share(budget.maxCost, totals?.cost ?? 0),
+      // Searches are whole: the first branches take what does not divide evenly
+      maxSearchCalls: budget.maxSearchCalls === undefined
+        ? undefined
+        : searchCalls + Math.floor(searchesLeft / parts) + (i < searchesLeft % parts ? 1 : 0),
+    };
+  });
+}
+
+export function usageTotals(usage: Omit<RunUsage, "totals">, now: number = Date.now()): UsageTotals {
+  const inputTokens = sum(usage.entries, e => e.inputTokens);
+  const outputTokens = sum(usage.entries, e => e.outputTokens);
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    cost: sum(usage.entries, e => e.cost),
+    llmCalls: sum(usage.entries, e => e.calls),
+    searchCalls: usage.searchCalls,
+    elapsedMs: now - usage.startedAt,
+  };
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((total, item) => total + value(item), 0);
+}
+
+// Usage entries merged by node, model or iteration, in order of first appearance
+export function groupUsage(entries: UsageEntry[], by: "node" | "model" | "iteration"): Array<Omit<UsageEntry, "node" | "model" | "iteration"> & { key: string }> {
+  const groups = new Map<string, { key: string; calls: number; inputTokens: number; outputTokens: number; cost: number }>();
+  for (const entry of entries) {
+    const key = String(entry[by]);
+    const group = groups.get(key) ?? { key, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    group.calls += entry.calls;
+    group.inputTokens += entry.inputTokens;
+    group.outputTokens += entry.outputTokens;
+    group.cost += entry.cost;
+    groups.set(key, group);
+  }
+  return Array.from(groups.values());
+}
+
+// Search calls the budget still allows (Infinity without a limit)
+export function remainingSearchCalls(usage: RunUsage | undefined, budget: Budget): number {
+  if (budget.maxSearchCalls === undefined) return Infinity;
+  return Math.max(0, budget.maxSearchCalls - (usage?.searchCalls ?? 0));
+}
+
+// Why the run should stop researching and write the report, if a budget is nearly used up.
+// Token, cost and time budgets keep a reserve for writing; search calls can be used to the last.
+export function budgetExhausted(usage: RunUsage | undefined, budget: Budget, now: number = Date.now()): string | undefined {
+  if (!usage) return undefined;
+  const threshold = 1 - (budget.reserve ?? defaultBudgetReserve);
+  const totals = usageTotals(usage, now);
+
+  if (budget.maxTokens !== undefined && totals.totalTokens >= budget.maxTokens * threshold) {
+    return `the token budget is nearly used up (${totals.totalTokens} of ${budget.maxTokens} tokens)`;
+  }
+  if (budget.maxCost !== undefined && totals.cost >= budget.maxCost * threshold) {
+    return `the cost budget is nearly used up ($${totals.cost.toFixed(4)} of $${budget.maxCost})`;
+  }
+  if (budget.maxWallTimeMs !== undefined && totals.elapsedMs >= budget.maxWallTimeMs * threshold) {
+    return `the time budget is nearly used up (${Math.round(totals.elapsedMs / 1000)}s of ${Math.round(budget.maxWallTimeMs / 1000)}s)`;
+  }
+  if (remainingSearchCalls(usage, budget) === 0) {
+    return `the search budget is used up (${usage.searchCalls} of ${budget.maxSearchCalls} searches)`;
+  }
+  return undefined;
+}
+
+// One-line summary of the totals, e.g. for the command line
+export function formatUsage(totals: UsageTotals): string {
+  return `${totals.totalTokens} tokens (${totals.inputTokens} in, ${totals.outputTokens} out), `
+    + `~$${totals.cost.toFixed(4)}, ${totals.llmCalls} model calls, ${totals.searchCalls} searches, `
+    + `${Math.round(totals.elapsedMs / 1000)}s`;
+}
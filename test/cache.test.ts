@@ -0,0 +1,85 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "fs";
+import os from "os";
+import path from "path";
+import { FileCache } from "../src/utils/cache";
+import { ScriptedLLMProvider } from "../src/providers/llm";
+import { StaticSearchProvider } from "../src/providers/search";
+import { muteConsole, scoreReply, result, runResearch, planReply } from "./helpers";
+
+muteConsole();
+
+function cacheDirectory(): string {
+  return mkdtempSync(path.join(os.tmpdir(), "cache-"));
+}
+
+describe("FileCache", () => {
+  it("stores values per namespace and key", async () => {
+    const cache = new FileCache({ directory: cacheDirectory() });
+
+    await cache.set("search", { query: "a" }, ["result"]);
+
+    assert.deepEqual(await cache.get("search", { query: "a" }), ["result"]);
+    assert.equal(await cache.get("search", { query: "b" }), undefined);
+    assert.equal(await cache.get("summary", { query: "a" }), undefined);
+  });
+
+  it("ignores expired entries", async () => {
+    const cache = new FileCache({ directory: cacheDirectory(), ttlMs: -1 });
+
+    await cache.set("search", "key", "value");
+
+    assert.equal(await cache.get("search", "key"), undefined);
+  });
+
+  it("evicts the oldest entries beyond the size limit", async () => {
+    const cache = new FileCache({ directory: cacheDirectory(), maxBytes: 250 });
+
+    await cache.set("summary", "first", "x".repeat(100));
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await cache.set("summary", "second", "y".repeat(100));
+
+    assert.equal(await cache.get("summary", "first"), undefined);
+    assert.equal(await cache.get("summary", "second"), "y".repeat(100));
+  });
+
+  it("clears everything or a single namespace", async () => {
+    const cache = new FileCache({ directory: cacheDirectory() });
+    await cache.set("search", "key", 1);
+    await cache.set("summary", "key", 2);
+
+    await cache.clear("search");
+    assert.equal(await cache.get("search", "key"), undefined);
+    assert.equal(await cache.get("summary", "key"), 2);
+
+    await cache.clear();
+    assert.equal(await cache.get("summary", "key"), undefined);
+  });
+});
+
+describe("cached research runs", () => {
+  it("reuses search results and summaries from an earlier run", async () => {
+    const cache = new FileCache({ directory: cacheDirectory() });
+    const script = {
+      planner: planReply(["q1"]),
+      summarizer: "summary",
+      evaluator: '{"isComplete": true, "queries": []}',
+      filter: scoreReply({ 1: 8 }),
+      writer: "# Title\n\nReport",
+    };
+
+    const firstSearch = new StaticSearchProvider({ q1: [result(1), result(2)] });
+    const firstLLM = new ScriptedLLMProvider(script);
+    await runResearch("topic", { llm: firstLLM, search: firstSearch, configurable: { cache } });
+
+    const secondSearch = new StaticSearchProvider();
+    const secondLLM = new ScriptedLLMProvider(script);
+    const { state } = await runResearch("topic", { llm: secondLLM, search: secondSearch, configurable: { cache } });
+
+    assert.equal(firstLLM.callsFor("summarizer").length, 2);
+    assert.deepEqual(secondSearch.queries, []);
+    assert.equal(secondLLM.callsFor("summarizer").length, 0);
+    assert.deepEqual(state.results?.[0].searchResults.results.map(r => r.filteredContent), ["summary", "summary"]);
+  });
+});
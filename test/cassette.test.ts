@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync } from "fs";
+import os from "os";
+import path from "path";
+import { Cassette, CassetteLLMProvider, CassetteSearchProvider, CassetteMissError } from "../src/providers/cassette";
+import { ScriptedLLMProvider } from "../src/providers/llm";
+import { StaticSearchProvider } from "../src/providers/search";
+import { muteConsole, scoreReply, result, runResearch, ResearchRun, planReply } from "./helpers";
+
+muteConsole();
+
+function cassettePath(): string {
+  return path.join(mkdtempSync(path.join(os.tmpdir(), "cassette-")), "run.json");
+}
+
+// A run without its wall-clock times, which differ between recording and replay
+function withoutTimes({ visited, state }: ResearchRun): ResearchRun {
+  const usage = state.usage && { ...state.usage, startedAt: 0, totals: { ...state.usage.totals, elapsedMs: 0 } };
+  return { visited, state: { ...state, usage } };
+}
+
+describe("cassettes", () => {
+  it("replays a recorded run without calling the providers", async () => {
+    const filePath = cassettePath();
+    const llm = new ScriptedLLMProvider({
+      planner: planReply(["q1"]),
+      summarizer: "summary",
+      evaluator: ['{"isComplete": false, "queries": ["q2"]}', new Error("quota")],
+      filter: scoreReply({ 1: 8 }),
+      writer: "# Title\n\nReport",
+    });
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+
+    const recording = await Cassette.open(filePath, "record");
+    const recorded = await runResearch("topic", {
+      llm: new CassetteLLMProvider(llm, recording),
+      search: new CassetteSearchProvider(search, recording),
+      configurable: { maxIterations: 5 },
+    });
+
+    const replaying = await Cassette.open(filePath, "replay");
+    const offlineLLM = new ScriptedLLMProvider();
+    const offlineSearch = new StaticSearchProvider();
+    const replayed = await runResearch("topic", {
+      llm: new CassetteLLMProvider(offlineLLM, replaying),
+      search: new CassetteSearchProvider(offlineSearch, replaying),
+      configurable: { maxIterations: 5 },
+    });
+
+    assert.deepEqual(withoutTimes(replayed), withoutTimes(recorded));
+    assert.equal(offlineLLM.calls.length, 0);
+    assert.equal(offlineSearch.queries.length, 0);
+    assert.deepEqual(replaying.misses, []);
+  });
+
+  it("fails calls that were never recorded", async () => {
+    const filePath = cassettePath();
+    const recording = await Cassette.open(filePath, "record");
+    await new CassetteLLMProvider(new ScriptedLLMProvider({ writer: "a" }), recording)
+      .generate({ role: "writer", prompt: "recorded" });
+
+    const replaying = await Cassette.open(filePath, "replay");
+    const llm = new CassetteLLMProvider(new ScriptedLLMProvider(), replaying);
+
+    assert.deepEqual(await llm.generate({ role: "writer", prompt: "recorded" }), { text: "a", model: "fake-writer" });
+    await assert.rejects(llm.generate({ role: "writer", prompt: "other" }), CassetteMissError);
+    await assert.rejects(llm.generate({ role: "writer", prompt: "recorded", temperature: 0.5 }), CassetteMissError);
+    assert.equal(replaying.misses.length, 2);
+  });
+});
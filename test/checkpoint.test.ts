@@ -0,0 +1,121 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { createResearcher } from "../src/graph";
+import { FileCheckpointSaver } from "../src/checkpoint";
+import { ScriptedLLMProvider, Script } from "../src/providers/llm/fake";
+import { GenerateRequest } from "../src/providers/llm";
+import { StaticSearchProvider } from "../src/providers/search";
+import { muteConsole, scoreReply, sectionWriter, result, planReply } from "./helpers";
+
+muteConsole();
+
+const script: Script = {
+  planner: planReply(["q1", "q2"]),
+  summarizer: "summary",
+  evaluator: '{"isComplete": true, "queries": []}',
+  filter: scoreReply({ 1: 8, 2: 7 }),
+  writer: sectionWriter("Body", "Report"),
+};
+
+function checkpointDirectory(): string {
+  return mkdtempSync(path.join(os.tmpdir(), "checkpoints-"));
+}
+
+describe("checkpointed runs", () => {
+  it("resumes a crashed run from its last completed node in a new process", async () => {
+    const directory = checkpointDirectory();
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+
+    const crashing = new ScriptedLLMProvider({ ...script, writer: new Error("writer crashed") });
+    await assert.rejects(
+      createResearcher(new FileCheckpointSaver(directory)).invoke(
+        { topic: "EVs" },
+        { configurable: { thread_id: "run-1", llm: crashing, search } }
+      ),
+      /writer crashed/
+    );
+
+    // A fresh saver reads the checkpoints back from disk, only those of the threads it is asked for
+    writeFileSync(path.join(directory, "unreadable.json"), "{");
+    const saver = new FileCheckpointSaver(directory);
+    assert.deepEqual((await saver.threadIds()).sort(), ["run-1", "unreadable"]);
+    const resumed = createResearcher(saver);
+    const snapshot = await resumed.getState({ configurable: { thread_id: "run-1" } });
+    assert.deepEqual(snapshot.next, ["Write"]);
+
+    const llm = new ScriptedLLMProvider(script);
+    const state = await resumed.invoke(null, { configurable: { thread_id: "run-1", llm, search } });
+
+    // Outline, section, introduction and conclusion
+    assert.deepEqual(llm.calls.map(call => call.role), ["writer", "writer", "writer", "writer"]);
+    assert.deepEqual(search.queries, ["q1", "q2"]);
+    assert.equal(state.topic, "EVs");
+    assert.equal(state.report?.title, "Report");
+  });
+
+  it("forks a run from an earlier checkpoint with a different report prompt", async () => {
+    const researcher = createResearcher(new FileCheckpointSaver(checkpointDirectory()));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+    await researcher.invoke(
+      { topic: "EVs" },
+      { configurable: { thread_id: "run-2", llm: new ScriptedLLMProvider(script), search } }
+    );
+
+    let beforeWrite;
+    for await (const snapshot of researcher.getStateHistory({ configurable: { thread_id: "run-2" } })) {
+      if (snapshot.next.includes("Write")) beforeWrite = snapshot;
+    }
+    assert.ok(beforeWrite);
+
+    const llm = new ScriptedLLMProvider({ ...script, writer: "# Executive Summary\n\nShort" });
+    const forked = await researcher.invoke(null, {
+      configurable: { ...beforeWrite.config.configurable, llm, search, reportPrompt: "Write a one-paragraph summary." },
+    });
+
+    assert.equal(llm.calls.length, 1);
+    assert.match(llm.calls[0].prompt, /^Write a one-paragraph summary\./);
+    assert.equal(forked.report?.title, "Executive Summary");
+    assert.equal(forked.filteredResults?.[0].searchResults.length, 2);
+  });
+
+  it("rewrites one section of a finished report and checks its citations again", async () => {
+    const researcher = createResearcher(new FileCheckpointSaver(checkpointDirectory()));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+    const config = { configurable: { thread_id: "run-3", search } };
+    await researcher.invoke({ topic: "EVs" }, { configurable: { ...config.configurable, llm: new ScriptedLLMProvider(script) } });
+
+    await researcher.updateState(config, {}, "Merge");
+    const llm = new ScriptedLLMProvider({ ...script, writer: "Rewritten [Ref. 1].", verifier: '{"checks": []}' });
+    const state = await researcher.invoke(null, { configurable: { ...config.configurable, llm, rewriteSections: [2] } });
+
+    assert.deepEqual(llm.calls.map(call => call.role), ["writer", "verifier"]);
+    assert.match(llm.calls[0].prompt, /Section: Findings/);
+    assert.deepEqual(state.report?.sections?.map(section => section.content), ["Body", "Rewritten [Ref. 1].", "Body"]);
+  });
+
+  it("rewrites a section of a revised report without undoing the revision", async () => {
+    const researcher = createResearcher(new FileCheckpointSaver(checkpointDirectory()));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+    const config = { configurable: { thread_id: "run-4", search, citations: "revise" } };
+    const writer = (request: GenerateRequest) => {
+      if (request.responseSchema) return JSON.stringify({ title: "Report", sections: [{ heading: "Findings", description: "", sources: [1] }] });
+      if (request.prompt.includes("Sentences to revise:")) {
+        return "# Report\n\n## Introduction\n\nIntro.\n\n## Findings\n\nPrices fell [Ref. 1].\n\n## Conclusion\n\nEnd.";
+      }
+      if (request.prompt.match(/^Section: Findings$/m)) return "Prices fell [Ref. 1]. Sales tripled [Ref. 4].";
+      return request.prompt.startsWith("Write the introduction") ? "Intro." : "End.";
+    };
+    const verifier = '{"checks": [{"claim": 1, "supported": true}]}';
+    await researcher.invoke({ topic: "EVs" }, { configurable: { ...config.configurable, llm: new ScriptedLLMProvider({ ...script, writer, verifier }) } });
+
+    await researcher.updateState(config, {}, "Merge");
+    const llm = new ScriptedLLMProvider({ ...script, writer: "New intro.", verifier });
+    const state = await researcher.invoke(null, { configurable: { ...config.configurable, llm, rewriteSections: [1] } });
+
+    assert.deepEqual(state.report?.sections?.map(section => section.content), ["New intro.", "Prices fell [Ref. 1].", "End."]);
+    assert.doesNotMatch(state.report?.content ?? "", /Sales tripled/);
+  });
+});
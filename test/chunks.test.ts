@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { selectChunks, shareBudget, splitIntoChunks, truncateToTokens } from "../src/utils/chunks";
+import { estimateTokens, ScriptedLLMProvider } from "../src/providers/llm";
+import { processSearchResults, summarizeDocument } from "../src/nodes/search";
+import { SearchResults } from "../src/models/search";
+import { muteConsole, result, SlowLLMProvider } from "./helpers";
+
+muteConsole();
+
+// A page of paragraphs about a given subject, one sentence each
+function page(subject: string, paragraphs: number): string {
+  return Array.from({ length: paragraphs }, (_, i) => `Paragraph ${i + 1} is about ${subject} and has several more words in it.`)
+    .join("\n\n");
+}
+
+describe("chunked documents", () => {
+  it("splits documents into token-bounded chunks of whole paragraphs", () => {
+    const chunks = splitIntoChunks(page("batteries", 40), 100);
+
+    assert.ok(chunks.length > 1);
+    assert.ok(chunks.every(chunk => estimateTokens(chunk) <= 100));
+    assert.equal(chunks.join("\n\n"), page("batteries", 40));
+    assert.ok(splitIntoChunks("x".repeat(1000), 100).every(chunk => estimateTokens(chunk) <= 100));
+  });
+
+  it("selects the chunks that match the query, in document order", () => {
+    const chunks = ["charging stations in cities", "battery chemistry basics", "home charging costs", "car design history"];
+
+    assert.deepEqual(selectChunks(chunks, "charging costs", 2), ["charging stations in cities", "home charging costs"]);
+    assert.deepEqual(selectChunks(chunks, "unrelated words", 2), chunks.slice(0, 2));
+  });
+
+  it("shares a token budget, giving what short texts leave to the long ones", () => {
+    assert.deepEqual(shareBudget(["a".repeat(40), "b".repeat(4000), "c".repeat(4000)], 610), [10, 300, 300]);
+    assert.equal(truncateToTokens("one two three four five six", 3), "one two…");
+  });
+
+  it("packs the sources of a prompt to a token budget", () => {
+    const long = { ...result(1), rawContent: "word ".repeat(5000) };
+    const results = new SearchResults([long, { ...result(2), filteredContent: "A short summary." }]);
+
+    const packed = results.toString(500);
+    assert.ok(estimateTokens(packed) <= 510);
+    assert.match(packed, /\[2\] Title: Source 2\nLink: https:\/\/example.com\/2\nRefined Content: A short summary\.$/);
+    assert.match(results.toString(), /Raw Content: Content of source 1/);
+  });
+
+  it("summarizes long documents map-reduce style", async () => {
+    const document = `${page("battery recycling", 30)}\n\n${page("charging networks", 30)}`;
+    const llm = new ScriptedLLMProvider({
+      summarizer: request => request.prompt.includes("<Summary 1>") ? "combined" : `part ${request.prompt.length}`,
+    });
+
+    const summary = await summarizeDocument(document, "charging networks", llm, { chunkTokens: 200, maxChunks: 3 });
+
+    const [combine, ...parts] = llm.calls.slice().reverse();
+    assert.equal(summary, "combined");
+    assert.equal(parts.length, 3);
+    assert.ok(parts.every(call => call.prompt.includes("charging networks and has")));
+    assert.match(combine.prompt, /<Summary 3>/);
+  });
+
+  it("counts every chunk summary and the combine call against the concurrency limit", async () => {
+    const document = `${page("battery recycling", 30)}\n\n${page("charging networks", 30)}`;
+    const scripted = new ScriptedLLMProvider({ summarizer: "summary" });
+    const llm = new SlowLLMProvider(scripted, "summarizer");
+    const results = new SearchResults([1, 2, 3].map(id => ({ ...result(id), rawContent: document })));
+
+    await processSearchResults(results, "charging networks", llm, { concurrency: 2, chunkTokens: 200, maxChunks: 3 });
+
+    assert.equal(scripted.calls.length, 12);
+    assert.equal(llm.peak, 2);
+  });
+
+  it("summarizes short documents in one call", async () => {
+    const llm = new ScriptedLLMProvider({ summarizer: "summary" });
+
+    assert.equal(await summarizeDocument("A short page.", "topic", llm), "summary");
+    assert.equal(llm.calls.length, 1);
+  });
+});
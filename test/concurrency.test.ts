@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createLimiter, mapWithConcurrency, withSharedLimiter } from "../src/utils/concurrency";
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("mapWithConcurrency", () => {
+  it("never runs more than the limit at once and keeps the item order", async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await delay(ms);
+      active--;
+      return index;
+    });
+
+    assert.deepEqual(results, [0, 1, 2, 3, 4]);
+    assert.equal(maxActive, 2);
+  });
+
+  it("shares one limiter across several maps", async () => {
+    const limit = createLimiter(1);
+    const order: string[] = [];
+
+    await Promise.all(["a", "b"].map(group => mapWithConcurrency([1, 2], limit, async item => {
+      order.push(`${group}${item}:start`);
+      await delay(5);
+      order.push(`${group}${item}:end`);
+    })));
+
+    // With a single slot, every task finishes before the next one starts
+    for (let i = 0; i < order.length; i += 2) {
+      assert.equal(order[i].replace(":start", ""), order[i + 1].replace(":end", ""));
+    }
+  });
+
+  it("frees the slot of a failed task", async () => {
+    const limit = createLimiter(1);
+
+    await assert.rejects(limit(async () => { throw new Error("boom"); }), /boom/);
+    assert.equal(await limit(async () => "next"), "next");
+  });
+
+  it("shares a limiter among the tasks holding the same key, until the last one is done", async () => {
+    const limiters = await Promise.all(["run", "run", "other"].map(key =>
+      withSharedLimiter(key, 1, async limit => { await delay(5); return limit; })));
+    const later = await withSharedLimiter("run", 1, async limit => limit);
+
+    assert.equal(limiters[0], limiters[1]);
+    assert.notEqual(limiters[0], limiters[2]);
+    assert.notEqual(later, limiters[0]);
+  });
+
+  it("rejects invalid limits", () => {
+    assert.throws(() => createLimiter(0), /positive integer/);
+  });
+});
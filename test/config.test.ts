@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ResearchConfigError, getResearchConfig, resolveResearchConfig } from "../src/config";
+
+describe("research configuration", () => {
+  it("starts from the standard preset", () => {
+    const config = resolveResearchConfig();
+
+    assert.equal(config.preset, "standard");
+    assert.equal(config.maxIterations, 3);
+    assert.equal(config.maxSources, 10);
+    assert.equal(config.maxReportTokens, 8192);
+    assert.equal(config.temperatures.planner, 0.7);
+  });
+
+  it("applies layers over their preset, merging nested settings", () => {
+    const config = resolveResearchConfig(
+      { preset: "exhaustive", temperatures: { writer: 0.4 }, budget: { maxTokens: 1000 } },
+      { maxIterations: 2, temperatures: { planner: 1 }, budget: { maxSearchCalls: 10 } }
+    );
+
+    assert.equal(config.preset, "exhaustive");
+    assert.equal(config.maxIterations, 2);
+    assert.equal(config.searchDepth, "advanced");
+    assert.equal(config.temperatures.writer, 0.4);
+    assert.equal(config.temperatures.planner, 1);
+    assert.equal(config.temperatures.evaluator, 0.2);
+    assert.deepEqual(config.budget, { maxTokens: 1000, maxSearchCalls: 10 });
+  });
+
+  it("reproduces a resolved configuration", () => {
+    const config = resolveResearchConfig({ preset: "quick", models: { writer: "big-model" } });
+
+    assert.deepEqual(resolveResearchConfig(JSON.parse(JSON.stringify(config))), config);
+  });
+
+  it("rejects invalid and unknown settings, naming each", () => {
+    assert.throws(
+      () => resolveResearchConfig({ preset: "huge", maxIterations: 0, temperatures: { writer: 3 }, maxIteration: 2 }),
+      (error: Error) => error instanceof ResearchConfigError
+        && /preset: .*; maxIterations: .*; temperatures\.writer: .*; config: Unrecognized key/.test(error.message)
+    );
+  });
+
+  it("reads its fields from config.configurable, ignoring the others", () => {
+    const config = getResearchConfig({ configurable: { thread_id: "t", maxQueries: 2, citations: "off", llm: {} } });
+
+    assert.equal(config.maxQueries, 2);
+    assert.equal(config.citations, "off");
+  });
+});
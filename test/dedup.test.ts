@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { canonicalizeUrl } from "../src/utils/urls";
+import { minHashSignature, signatureSimilarity } from "../src/utils/minhash";
+import { SourceIndex, sourceId } from "../src/utils/dedup";
+import { SearchResults } from "../src/models/search";
+import { result } from "./helpers";
+
+const article = "Brazil registered a record number of electric car sales in the first half of the year, "
+  + "driven by new Chinese brands, lower import taxes on batteries and a growing public charging network "
+  + "in the largest cities of the southeast, according to the national association of vehicle makers.";
+
+describe("source deduplication", () => {
+  it("canonicalizes tracking parameters, www, trailing slashes and AMP variants", () => {
+    const canonical = "https://example.com/news/ev-sales";
+    for (const link of [
+      "http://www.example.com/news/ev-sales/",
+      "https://example.com/news/ev-sales?utm_source=x&utm_medium=y&fbclid=abc#comments",
+      "https://example.com/news/ev-sales/amp",
+      "https://amp.example.com/news/ev-sales.amp",
+      "https://example.com/news/ev-sales?amp=1",
+      "https://www-example-com.cdn.ampproject.org/c/s/www.example.com/news/ev-sales/amp/",
+    ]) {
+      assert.equal(canonicalizeUrl(link), canonical, link);
+    }
+    assert.equal(canonicalizeUrl("https://example.com/search?q=ev&page=2"), "https://example.com/search?page=2&q=ev");
+    assert.equal(canonicalizeUrl("file:///docs/ev.md"), "file:///docs/ev.md");
+  });
+
+  it("estimates the similarity of near-duplicate texts", () => {
+    const copy = minHashSignature(article.replace("record number", "record amount") + " Read more on our site.")!;
+    const other = minHashSignature("Battery recycling plants in Europe are expanding their capacity to recover "
+      + "lithium, nickel and cobalt from used electric vehicle packs before new rules take effect next year.")!;
+
+    assert.ok(signatureSimilarity(minHashSignature(article)!, copy) >= 0.6);
+    assert.ok(signatureSimilarity(minHashSignature(article)!, other) < 0.2);
+    assert.equal(minHashSignature("too short"), undefined);
+  });
+
+  it("merges the same page and syndicated copies into one record with every query", () => {
+    const index = new SourceIndex(0.8);
+    const original = index.add({ ...result(1), content: article }, "q1");
+    const tracked = index.add({ ...result(1), link: "https://www.example.com/1/?utm_source=feed" }, "q2");
+    const syndicated = index.add({ ...result(2), link: "https://news.example.org/ev", content: article }, "q3");
+
+    assert.equal(original.duplicate, false);
+    assert.equal(tracked.duplicate, true);
+    assert.equal(syndicated.duplicate, true);
+    assert.deepEqual(index.records, [{
+      ...result(1),
+      id: sourceId("https://example.com/1"),
+      content: article,
+      queries: ["q1", "q2", "q3"],
+      duplicates: ["https://www.example.com/1/?utm_source=feed", "https://news.example.org/ev"],
+    }]);
+    assert.equal(new SearchResults([result(1), result(2), { ...result(2), link: "http://example.com/2/" }]).dedup().results.length, 2);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateCompleteness, filterSearchResults, mergeSelections, selectSources, sourceRank } from "../src/nodes/evaluate";
+import { sourceId } from "../src/utils/dedup";
+import { ScriptedLLMProvider } from "../src/providers/llm";
+import { SearchResults } from "../src/models/search";
+import { muteConsole, result, scoreReply } from "./helpers";
+
+muteConsole();
+
+const results = new SearchResults([result(1), result(2), result(3)]);
+
+describe("evaluateCompleteness", () => {
+  it("returns the validated evaluation in a single call", async () => {
+    const llm = new ScriptedLLMProvider({ evaluator: '{"isComplete": false, "queries": ["EV prices"]}' });
+
+    assert.deepEqual(await evaluateCompleteness("topic", results, llm), { isComplete: false, queries: ["EV prices"] });
+    assert.deepEqual(llm.calls.map(call => call.role), ["evaluator"]);
+  });
+
+  it("searches the topic itself without calling the model when there are no results", async () => {
+    const llm = new ScriptedLLMProvider();
+
+    const evaluation = await evaluateCompleteness("topic", new SearchResults([]), llm);
+    assert.deepEqual(evaluation.queries, ["topic"]);
+    assert.equal(evaluation.isComplete, false);
+    assert.equal(evaluation.fallback?.reason, "no search results to evaluate");
+    assert.equal(llm.calls.length, 0);
+  });
+
+  it("asks again when research is incomplete but no follow-up queries are given", async () => {
+    const llm = new ScriptedLLMProvider({
+      evaluator: ['{"isComplete": false, "queries": []}', '{"isComplete": false, "queries": ["gap"]}'],
+    });
+
+    assert.deepEqual(await evaluateCompleteness("topic", results, llm), { isComplete: false, queries: ["gap"] });
+    assert.match(llm.calls[1].prompt, /queries must not be empty/);
+  });
+
+  it("leaves the research incomplete with a recorded fallback when no valid evaluation is returned", async () => {
+    const llm = new ScriptedLLMProvider({ evaluator: '{"isComplete": "yes"}' });
+
+    const evaluation = await evaluateCompleteness("topic", results, llm);
+    assert.equal(evaluation.isComplete, false);
+    assert.deepEqual(evaluation.queries, []);
+    assert.match(evaluation.fallback?.reason ?? "", /No valid evaluator response after 3 attempts/);
+    assert.equal(llm.calls.length, 3);
+  });
+
+  it("leaves the research incomplete, with no queries and a recorded fallback, when the evaluation call fails", async () => {
+    const llm = new ScriptedLLMProvider({ evaluator: new Error("quota exceeded") });
+
+    const evaluation = await evaluateCompleteness("topic", results, llm);
+    assert.equal(evaluation.isComplete, false);
+    assert.deepEqual(evaluation.queries, []);
+    assert.equal(evaluation.fallback?.reason, "quota exceeded");
+    assert.equal(llm.calls.length, 1);
+  });
+});
+
+describe("filterSearchResults", () => {
+  it("scores sources by ID and keeps the best ones, leaving out irrelevant and unknown ones", async () => {
+    const llm = new ScriptedLLMProvider({ filter: scoreReply({ 3: 9, 1: 6 }) });
+
+    const filtered = await filterSearchResults("topic", results, llm);
+    assert.deepEqual(filtered.results.results.map(r => r.title), ["Source 3", "Source 1"]);
+    assert.deepEqual(filtered.scored.map(r => [r.id, r.score?.relevance]), [
+      [sourceId(result(1).link), 6], [sourceId(result(2).link), 0], [sourceId(result(3).link), 9],
+    ]);
+    assert.equal(filtered.fallback, undefined);
+  });
+
+  it("scores only the sources without a score, in batches, and caps the selection", async () => {
+    const scored = [{ ...result(1), score: { relevance: 9, reliability: 9, recency: 9, rationale: "kept" } }];
+    const sources = new SearchResults([...scored, result(2), result(3), result(4)]);
+    const llm = new ScriptedLLMProvider({ filter: scoreReply({ 2: 4, 3: 7, 4: 5 }) });
+
+    const filtered = await filterSearchResults("topic", sources, llm, 3, 0.1, 2);
+    assert.deepEqual(filtered.results.results.map(r => r.title), ["Source 1", "Source 3", "Source 4"]);
+    assert.equal(llm.calls.length, 2);
+    assert.doesNotMatch(llm.calls.map(call => call.prompt).join("\n"), /Title: Source 1\n/);
+  });
+
+  it("keeps the sources unscored, in the order found, when the scores cannot be parsed", async () => {
+    const llm = new ScriptedLLMProvider({ filter: "I like them all" });
+
+    const filtered = await filterSearchResults("topic", results, llm);
+    assert.deepEqual(filtered.results.results.map(r => r.title), ["Source 1", "Source 2", "Source 3"]);
+    assert.equal(filtered.fallback?.action, "left 3 sources unscored");
+  });
+
+  it("keeps the sources unscored when the model call fails", async () => {
+    const llm = new ScriptedLLMProvider({ filter: new Error("boom") });
+
+    const filtered = await filterSearchResults("topic", results, llm);
+    assert.equal(filtered.results.results.length, 3);
+    assert.equal(filtered.fallback?.reason, "boom");
+  });
+
+  it("ranks sources by their weighted scores", () => {
+    const score = (relevance: number, reliability: number, recency: number) => ({ relevance, reliability, recency, rationale: "" });
+    const sources = [
+      { ...result(1), score: score(6, 10, 10) },
+      { ...result(2), score: score(8, 5, 5) },
+      { ...result(3), score: score(0, 10, 10) },
+      result(4),
+    ];
+
+    assert.equal(sourceRank(sources[0]), 7.6);
+    assert.deepEqual(selectSources(sources, 10).map(r => r.title), ["Source 1", "Source 2", "Source 4"]);
+    assert.deepEqual(selectSources(sources, 1).map(r => r.title), ["Source 1"]);
+  });
+
+  it("ranks trusted domains up and untrusted ones down, and keeps at most maxPerDomain of a domain", () => {
+    const score = { relevance: 8, reliability: 5, recency: 5, rationale: "" };
+    const sources = [
+      { ...result(1), score, policy: { tier: "untrusted" as const, rules: ["untrustedDomains: example.com"] } },
+      { ...result(2), score },
+      { ...result(3), link: "https://www.cdc.gov/3", score, policy: { tier: "trusted" as const, rules: ["trustedDomains: gov"] } },
+    ];
+
+    assert.equal(sourceRank(sources[2]), sourceRank(sources[1]) + 1);
+    assert.equal(sourceRank(sources[0]), sourceRank(sources[1]) - 1);
+    assert.deepEqual(selectSources(sources, 10).map(r => r.title), ["Source 3", "Source 2", "Source 1"]);
+    assert.deepEqual(selectSources(sources, 10, 1).map(r => r.title), ["Source 3", "Source 2"]);
+  });
+});
+
+describe("mergeSelections", () => {
+  it("takes the sources of each selection in turn, once each, up to maxSources", () => {
+    const selections = [[result(1), result(2), result(3)], [result(2), result(4)], []];
+
+    assert.deepEqual(mergeSelections(selections, 10).map(source => source.title), ["Source 1", "Source 2", "Source 4", "Source 3"]);
+    assert.deepEqual(mergeSelections(selections, 3).map(source => source.title), ["Source 1", "Source 2", "Source 4"]);
+    assert.deepEqual(mergeSelections(selections, 10, 2).map(source => source.title), ["Source 1", "Source 2"]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "fs";
+import os from "os";
+import path from "path";
+import {
+  renderMarkdown, renderHtml, renderBundle, renderBibtex, renderCslJson, exportReport, exportName, parseExportFormats,
+} from "../src/export";
+import { ResearchState } from "../src/graph";
+import { SearchResults } from "../src/models/search";
+import { Report } from "../src/models/report";
+import { result } from "./helpers";
+
+const date = new Date("2025-05-04T10:00:00Z");
+
+const report: Report = {
+  title: "EV Guide",
+  content: "# EV Guide\n\nPrices fell [Ref. 3]. Range grew [Ref. 1, 3] <script>x</script>.\n\n## Referências\n1. made up",
+  sources: [result(1), result(2), { ...result(3), title: "Costs_{2025} & [more]" }],
+};
+
+describe("report export", () => {
+  it("rebuilds the markdown references from the cited sources, keeping their numbers", () => {
+    assert.equal(renderMarkdown(report), [
+      "# EV Guide",
+      "",
+      "Prices fell [Ref. 3]. Range grew [Ref. 1, 3] <script>x</script>.",
+      "",
+      "## References",
+      "",
+      "- [Ref. 1] [Source 1](https://example.com/1)",
+      "- [Ref. 3] [Costs_{2025} & \\[more\\]](https://example.com/3)",
+      "",
+    ].join("\n"));
+  });
+
+  it("links citations to references in self-contained HTML, escaping raw HTML", () => {
+    const html = renderHtml(report);
+
+    assert.match(html, /Range grew \[Ref\. <a href="#ref-1">1<\/a>, <a href="#ref-3">3<\/a>\]/);
+    assert.match(html, /<li id="ref-3">\[Ref\. 3\] <a href="https:\/\/example\.com\/3">Costs_\{2025\} &amp; \[more\]<\/a>/);
+    assert.doesNotMatch(html, /<script>/);
+    assert.doesNotMatch(html, /made up|<link|src=/);
+  });
+
+  it("writes links and images to anything but web pages, mail and anchors as plain text", () => {
+    const html = renderHtml({
+      ...report,
+      content: "# T\n\n[click](javascript:alert(1)) [caps]( JavaScript:alert(2)) ![x](data:text/html,hi) "
+        + "[ok](https://example.com/ok) [Ref. 1]",
+      sources: [{ ...result(1), link: "javascript:alert(3)" }],
+    });
+    assert.doesNotMatch(html, /href="\s*(javascript|data):/i);
+    assert.doesNotMatch(html, /href="(javascript|java\s*script|data):/i);
+    assert.doesNotMatch(html, /src="data:/);
+    assert.match(html, /click caps x <a href="https:\/\/example\.com\/ok">ok<\/a>/);
+    assert.match(html, /<li id="ref-1">\[Ref\. 1\] Source 1 <span class="url">javascript:alert\(3\)<\/span><\/li>/);
+  });
+
+  it("writes BibTeX and CSL-JSON entries for the cited sources", () => {
+    const bibtex = renderBibtex(report, date);
+    assert.match(bibtex, /^@misc\{examplecom1,\n  title = \{\{Source 1\}\},/);
+    assert.match(bibtex, /@misc\{examplecom3,\n  title = \{\{Costs\\_\\\{2025\\\} \\& \[more\]\}\},\n  howpublished = \{\\url\{https:\/\/example\.com\/3\}\},/);
+    assert.match(bibtex, /urldate = \{2025-05-04\}/);
+    assert.doesNotMatch(bibtex, /example\.com\/2/);
+
+    assert.deepEqual(JSON.parse(renderCslJson(report, date))[0], {
+      id: "examplecom1",
+      type: "webpage",
+      title: "Source 1",
+      URL: "https://example.com/1",
+      "container-title": "example.com",
+      accessed: { "date-parts": [[2025, 5, 4]] },
+    });
+  });
+
+  it("bundles queries per iteration and every source with its summary and queries", () => {
+    // A source found by two queries is one record, listed under both
+    const merged = { ...result(1), filteredContent: "summary 1", queries: ["q1", "q3"] };
+    const state: ResearchState = {
+      topic: "EVs",
+      results: [
+        { query: "q1", iteration: 1, searchResults: new SearchResults([merged]) },
+        { query: "q2", iteration: 1, searchResults: new SearchResults([result(2)]) },
+        { query: "q3", iteration: 2, searchResults: new SearchResults([merged]) },
+      ],
+      subQuestions: [
+        { id: 1, question: "Prices?", status: "answered", iterationCount: 1, sources: 1 },
+        { id: 2, question: "Range?", status: "open", reason: "reached the maximum of 2 iterations", iterationCount: 2 },
+      ],
+      report,
+    };
+
+    const bundle = JSON.parse(renderBundle(state, date));
+
+    assert.deepEqual(bundle.iterations, [{ iteration: 1, queries: ["q1", "q2"] }, { iteration: 2, queries: ["q3"] }]);
+    assert.deepEqual(bundle.subQuestions, [
+      { question: "Prices?", status: "answered", reason: null, sources: 1 },
+      { question: "Range?", status: "open", reason: "reached the maximum of 2 iterations", sources: 0 },
+    ]);
+    assert.deepEqual(bundle.sources[0], {
+      reference: 1, title: "Source 1", link: "https://example.com/1", summary: "summary 1", queries: ["q1", "q3"],
+      duplicates: [], score: null,
+    });
+    assert.equal(bundle.generatedAt, "2025-05-04T10:00:00.000Z");
+    assert.equal(bundle.report.title, "EV Guide");
+  });
+
+  it("writes one file per format, named after the title", async () => {
+    const directory = mkdtempSync(path.join(os.tmpdir(), "export-"));
+
+    const paths = await exportReport({ topic: "EVs", report }, parseExportFormats("markdown,csl"), { directory, date });
+
+    assert.deepEqual(paths, [path.join(directory, "ev-guide.md"), path.join(directory, "ev-guide.csl.json")]);
+    assert.equal(readFileSync(paths[0], "utf8"), renderMarkdown(report));
+    assert.equal(exportName("Carros Elétricos: Guia 2025"), "carros-eletricos-guia-2025");
+    assert.throws(() => parseExportFormats("pdf"), /Unknown export format "pdf"/);
+  });
+});
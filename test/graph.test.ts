@@ -0,0 +1,455 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ScriptedLLMProvider, Script } from "../src/providers/llm/fake";
+import { StaticSearchProvider } from "../src/providers/search";
+import { muteConsole, scoreReply, sectionWriter, result, runResearch, planReply, SlowLLMProvider } from "./helpers";
+import { ResearchEvent } from "../src/models/events";
+
+muteConsole();
+
+// Script for a run whose evaluations return the given verdicts in order
+function script(evaluations: string[], overrides: Script = {}): Script {
+  return {
+    planner: planReply(["q1", "q2"]),
+    summarizer: request => `summary of ${request.prompt.length} chars`,
+    evaluator: evaluations,
+    filter: scoreReply({ 2: 9, 1: 8 }),
+    writer: sectionWriter(),
+    verifier: '{"checks": [{"claim": 1, "supported": true}]}',
+    ...overrides,
+  };
+}
+
+const complete = '{"isComplete": true, "queries": []}';
+const incomplete = '{"isComplete": false, "queries": ["q3"]}';
+
+describe("researcher graph", () => {
+  it("writes the report after a single pass when research is complete", async () => {
+    const llm = new ScriptedLLMProvider(script([complete]));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+
+    const { visited, state } = await runResearch("EVs", { llm, search });
+
+    assert.deepEqual(visited, ["Plan", "Search", "Evaluate", "Merge", "Write", "Verify"]);
+    assert.deepEqual(search.queries, ["q1", "q2"]);
+    assert.equal(state.isComplete, true);
+    assert.equal(state.iterationCount, 1);
+    assert.deepEqual(state.subQuestions, [{ id: 1, question: "Question 1", status: "answered", iterationCount: 1, sources: 2 }]);
+    assert.equal(state.report?.title, "EV Guide");
+    assert.deepEqual(state.report?.sections?.map(section => [section.kind, section.heading, section.sources]), [
+      ["introduction", "Introduction", []], ["body", "Findings", [1]], ["conclusion", "Conclusion", []],
+    ]);
+    assert.equal(state.report?.content, "# EV Guide\n\n## Introduction\n\nBody [Ref. 1]\n\n## Findings\n\nBody [Ref. 1]\n\n"
+      + "## Conclusion\n\nBody [Ref. 1]\n\n## References\n\n- [Ref. 1] [Source 2](https://example.com/2)");
+    assert.deepEqual(state.report?.citations?.map(c => [c.marker, c.source?.title]), [[1, "Source 2"], [1, "Source 2"], [1, "Source 2"]]);
+    assert.deepEqual(state.filteredResults?.[0].searchResults.map(r => r.title), ["Source 2", "Source 1"]);
+    assert.ok(state.results?.every(r => r.searchResults.results.every(s => s.filteredContent && s.origin === "static")));
+  });
+
+  it("loops back to Search with the evaluator's follow-up queries until complete", async () => {
+    const llm = new ScriptedLLMProvider(script([incomplete, complete]));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)], q3: [result(3)] });
+
+    const { visited, state } = await runResearch("EVs", { llm, search });
+
+    assert.deepEqual(visited, ["Plan", "Search", "Evaluate", "Search", "Evaluate", "Merge", "Write", "Verify"]);
+    assert.deepEqual(search.queries, ["q1", "q2", "q3"]);
+    assert.equal(state.iterationCount, 2);
+    assert.deepEqual(state.results?.map(r => r.query), ["q1", "q2", "q3"]);
+  });
+
+  it("forces completion at maxIterations and leaves the question open", async () => {
+    const llm = new ScriptedLLMProvider(script([incomplete]));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)], q3: [result(3)] });
+
+    const { visited, state } = await runResearch("EVs", { llm, search, configurable: { maxIterations: 2 } });
+
+    assert.deepEqual(visited, ["Plan", "Search", "Evaluate", "Search", "Evaluate", "Merge", "Write", "Verify"]);
+    assert.equal(state.isComplete, true);
+    assert.equal(state.iterationCount, 2);
+    assert.equal(llm.callsFor("evaluator").length, 2);
+    assert.deepEqual(state.subQuestions?.map(q => [q.status, q.reason]), [["open", "reached the maximum of 2 iterations"]]);
+  });
+
+  it("writes from a placeholder source when no results are ever found", async () => {
+    const llm = new ScriptedLLMProvider(script([]));
+    const search = new StaticSearchProvider();
+
+    const { visited, state } = await runResearch("EVs", { llm, search, configurable: { maxIterations: 2 } });
+
+    // With no results the evaluator is never called and the sub-question itself is searched
+    assert.deepEqual(visited, ["Plan", "Search", "Evaluate", "Search", "Evaluate", "Merge", "Write", "Verify"]);
+    assert.deepEqual(search.queries, ["q1", "q2", "Question 1"]);
+    assert.equal(llm.callsFor("evaluator").length, 0);
+    assert.deepEqual(state.fallbacks?.map(f => [f.node, f.iteration, f.action]), [
+      ["Evaluate", 1, "searching the topic itself"],
+    ]);
+    assert.deepEqual(state.filteredResults?.[0].searchResults, [{
+      title: "No relevant results found",
+      link: "",
+      content: "Please try different search queries.",
+    }]);
+    assert.match(llm.callsFor("writer")[0].prompt, /No relevant results found/);
+  });
+
+  it("searches the question again and records the fallback when the evaluation fails", async () => {
+    const llm = new ScriptedLLMProvider(script([], { evaluator: [new Error("quota"), complete] }));
+    const search = new StaticSearchProvider(query => [result(query)]);
+
+    const { visited, state } = await runResearch("EVs", { llm, search });
+
+    assert.deepEqual(visited, ["Plan", "Search", "Evaluate", "Search", "Evaluate", "Merge", "Write", "Verify"]);
+    assert.deepEqual(search.queries, ["q1", "q2", "Question 1"]);
+    assert.equal(state.subQuestions?.[0].status, "answered");
+    assert.deepEqual(state.fallbacks, [{
+      node: "Evaluate",
+      iteration: 1,
+      reason: "quota",
+      action: "searching the question again in the next iteration",
+    }]);
+  });
+
+  it("leaves the question open after maxIterations when every evaluation fails", async () => {
+    const llm = new ScriptedLLMProvider(script([], { evaluator: new Error("quota") }));
+    const search = new StaticSearchProvider(query => [result(query)]);
+
+    const { state } = await runResearch("EVs", { llm, search, configurable: { maxIterations: 2 } });
+
+    assert.equal(llm.callsFor("evaluator").length, 2);
+    assert.deepEqual(state.subQuestions?.map(({ status, reason }) => ({ status, reason })),
+      [{ status: "open", reason: "reached the maximum of 2 iterations" }]);
+    assert.deepEqual(state.fallbacks?.map(({ node, iteration }) => [node, iteration]), [["Evaluate", 1]]);
+    assert.ok(state.report);
+  });
+
+  it("records no fallbacks when every answer is valid", async () => {
+    const llm = new ScriptedLLMProvider(script([complete]));
+    const search = new StaticSearchProvider(() => [result(1)]);
+
+    const { state } = await runResearch("EVs", { llm, search });
+
+    assert.equal(state.fallbacks, undefined);
+  });
+
+  it("runs searches concurrently but keeps results in query order", async () => {
+    const llm = new ScriptedLLMProvider(script([complete], {
+      planner: planReply(["slow", "fails", "fast"]),
+      summarizer: request => {
+        if (request.prompt.includes("Content of source 2")) throw new Error("summarizer down");
+        return "summary";
+      },
+    }));
+    const slow = new StaticSearchProvider({ slow: [result(1), result(2)], fast: [result(3)], fails: new Error("search down") });
+    const search = {
+      name: "delayed",
+      search: async (query: string, options: { maxResults: number }) => {
+        await new Promise(resolve => setTimeout(resolve, query === "slow" ? 30 : 1));
+        return slow.search(query, options);
+      },
+    };
+
+    const { state } = await runResearch("EVs", { llm, search, configurable: { concurrency: 3 } });
+
+    assert.deepEqual(state.results?.map(r => r.query), ["slow", "fails", "fast"]);
+    assert.deepEqual(state.results?.map(r => r.searchResults.results.length), [2, 0, 1]);
+    // A failed summary keeps the source, without refined content
+    assert.deepEqual(state.results?.[0].searchResults.results.map(r => r.filteredContent), ["summary", ""]);
+  });
+
+  it("passes maxQueries and maxResults to the planner and search", async () => {
+    const llm = new ScriptedLLMProvider(script([complete]));
+    const search = new StaticSearchProvider(() => [result(1), result(2), result(3)]);
+
+    const { state } = await runResearch("EVs", { llm, search, configurable: { maxQueries: 1, maxResults: 2 } });
+
+    assert.deepEqual(search.queries, ["q1"]);
+    assert.equal(state.results?.[0].searchResults.results.length, 2);
+  });
+
+  it("sends typed progress events to configurable.onEvent", async () => {
+    const llm = new ScriptedLLMProvider(script([incomplete, complete]));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)], q3: [result(3)] });
+    const events: ResearchEvent[] = [];
+
+    await runResearch("EVs", { llm, search, configurable: { onEvent: (event: ResearchEvent) => events.push(event) } });
+
+    assert.deepEqual(events.find(e => e.type === "plan_generated"), { type: "plan_generated", subQuestions: ["Question 1"], queries: ["q1", "q2"], fallback: undefined });
+    assert.deepEqual(events.filter(e => e.type === "query_finished").map(e => e.type === "query_finished" && [e.iteration, e.query, e.sources]),
+      [[1, "q1", 1], [1, "q2", 1], [2, "q3", 1]]);
+    assert.equal(events.filter(e => e.type === "source_summarized").length, 3);
+    assert.deepEqual(events.filter(e => e.type === "evaluation_verdict").map(e => e.type === "evaluation_verdict" && [e.iteration, e.isComplete, e.queries]),
+      [[1, false, ["q3"]], [2, true, []]]);
+    assert.deepEqual(events.filter(e => e.type === "filter_result").map(e => e.type === "filter_result" && [e.kept, e.total]), [[2, 2], [2, 3]]);
+    assert.equal(events.filter(e => e.type === "report_token").map(e => e.type === "report_token" && e.text).join(""),
+      "# EV Guide\n\n## Findings\n\nBody [Ref. 1]\n\n## Introduction\n\nBody [Ref. 1]\n\n## Conclusion\n\nBody [Ref. 1]\n\n");
+  });
+
+  it("emits an error event naming the node that failed", async () => {
+    const llm = new ScriptedLLMProvider(script([complete], { writer: () => { throw new Error("writer is down"); } }));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+    const events: ResearchEvent[] = [];
+
+    await assert.rejects(
+      runResearch("EVs", { llm, search, configurable: { onEvent: (event: ResearchEvent) => events.push(event) } }),
+      /writer is down/
+    );
+    assert.deepEqual(events[events.length - 1], { type: "error", node: "Write", message: "writer is down" });
+  });
+
+  it("records the usage of every node in the final state", async () => {
+    const llm = new ScriptedLLMProvider(script([complete]));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+
+    const { state } = await runResearch("EVs", { llm, search });
+
+    assert.deepEqual([...new Set(state.usage?.entries.map(e => e.node))], ["Plan", "Search", "Evaluate", "Write", "Verify"]);
+    assert.equal(state.usage?.totals.llmCalls, llm.calls.length);
+    assert.equal(state.usage?.totals.searchCalls, 2);
+    assert.ok((state.usage?.totals.totalTokens ?? 0) > 0);
+  });
+
+  it("writes with what it has once the token budget is nearly used up", async () => {
+    const llm = new ScriptedLLMProvider(script([incomplete]));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+
+    const { visited, state } = await runResearch("EVs", { llm, search, configurable: { budget: { maxTokens: 10 } } });
+
+    assert.deepEqual(visited, ["Plan", "Search", "Evaluate", "Merge", "Write", "Verify"]);
+    assert.equal(llm.callsFor("evaluator").length, 0);
+    assert.match(state.fallbacks?.[0].reason ?? "", /token budget is nearly used up/);
+    assert.ok(state.report);
+  });
+
+  it("searches no more queries than the search budget allows", async () => {
+    const llm = new ScriptedLLMProvider(script(['{"isComplete": false, "queries": ["q3", "q4"]}']));
+    const search = new StaticSearchProvider(() => [result(1)]);
+
+    const { visited, state } = await runResearch("EVs", { llm, search, configurable: { budget: { maxSearchCalls: 3 } } });
+
+    assert.deepEqual(search.queries, ["q1", "q2", "q3"]);
+    assert.deepEqual(visited, ["Plan", "Search", "Evaluate", "Search", "Evaluate", "Merge", "Write", "Verify"]);
+    assert.equal(llm.callsFor("evaluator").length, 1);
+    assert.equal(state.usage?.searchCalls, 3);
+  });
+
+  it("runs with the settings of its preset and records them in the state", async () => {
+    const llm = new ScriptedLLMProvider(script([incomplete]));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+
+    const { visited, state } = await runResearch("EVs", {
+      llm, search, configurable: { preset: "quick", temperatures: { planner: 0.9 }, models: { writer: "big-writer" } },
+    });
+
+    // A quick run stops after one iteration
+    assert.deepEqual(visited, ["Plan", "Search", "Evaluate", "Merge", "Write", "Verify"]);
+    assert.equal(llm.callsFor("planner")[0].temperature, 0.9);
+    assert.equal(llm.callsFor("writer")[0].model, "big-writer");
+    assert.equal(llm.callsFor("writer")[0].maxOutputTokens, 4096);
+    assert.equal(state.config?.preset, "quick");
+    assert.equal(state.config?.models.writer, "big-writer");
+    assert.equal(state.config?.models.planner, "fake-planner");
+  });
+
+  it("fails on an invalid configuration", async () => {
+    const llm = new ScriptedLLMProvider(script([complete]));
+    const search = new StaticSearchProvider();
+
+    await assert.rejects(runResearch("EVs", { llm, search, configurable: { maxIterations: -1 } }), /maxIterations/);
+  });
+
+  it("keeps a query history with the new sources of each query and shows it to the evaluator", async () => {
+    const llm = new ScriptedLLMProvider(script([incomplete, complete]));
+    const search = new StaticSearchProvider({ q1: [result(1), result(2)], q2: [result(2)], q3: [result(3), result(1)] });
+
+    const { state } = await runResearch("EVs", { llm, search });
+
+    assert.deepEqual(state.queryHistory, [
+      { query: "q1", iteration: 1, sources: 2, newSources: 2, subQuestion: 1 },
+      { query: "q2", iteration: 1, sources: 1, newSources: 0, subQuestion: 1 },
+      { query: "q3", iteration: 2, sources: 2, newSources: 1, subQuestion: 1 },
+    ]);
+    assert.match(llm.callsFor("evaluator")[1].prompt, /Iteration 2: "q3" \(1 new sources\)/);
+  });
+
+  it("skips follow-up queries that repeat earlier ones, which ends the research", async () => {
+    const llm = new ScriptedLLMProvider(script(['{"isComplete": false, "queries": ["Q1?", "q2"]}']));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+
+    const { visited, state } = await runResearch("EVs", { llm, search });
+
+    assert.deepEqual(search.queries, ["q1", "q2"]);
+    assert.deepEqual(visited, ["Plan", "Search", "Evaluate", "Search", "Evaluate", "Merge", "Write", "Verify"]);
+    assert.equal(llm.callsFor("evaluator").length, 2);
+    assert.equal(state.queryHistory?.length, 2);
+    assert.equal(state.subQuestions?.[0].reason, "iteration 2 found 0 new sources among 0 results");
+  });
+
+  it("ends the research when an iteration finds almost no new sources", async () => {
+    const llm = new ScriptedLLMProvider(script([incomplete]));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)], q3: [result(1), result(2)] });
+
+    const { visited, state } = await runResearch("EVs", { llm, search, configurable: { maxIterations: 5 } });
+
+    assert.deepEqual(visited, ["Plan", "Search", "Evaluate", "Search", "Evaluate", "Merge", "Write", "Verify"]);
+    assert.equal(llm.callsFor("evaluator").length, 2);
+    assert.deepEqual(state.subQuestions?.map(q => q.status), ["open"]);
+  });
+
+  it("merges duplicate sources before summarizing them", async () => {
+    const article = "Electric car sales in Brazil reached a record in the first half of the year, "
+      + "led by new Chinese brands and lower taxes on imported batteries.";
+    const llm = new ScriptedLLMProvider(script([complete]));
+    const search = new StaticSearchProvider({
+      q1: [result(1, article), result(2)],
+      q2: [{ ...result(1), link: "https://www.example.com/1/?utm_source=feed" }, result(3, `${article} Updated.`)],
+    });
+
+    const { state } = await runResearch("EVs", { llm, search });
+
+    const sources = state.results!.flatMap(r => r.searchResults.results);
+    assert.deepEqual(sources.map(source => [source.link, source.queries, source.duplicates]), [
+      ["https://example.com/1", ["q1", "q2"], ["https://www.example.com/1/?utm_source=feed", "https://example.com/3"]],
+      ["https://example.com/2", ["q1"], undefined],
+    ]);
+    assert.equal(llm.callsFor("summarizer").length, 2);
+    assert.deepEqual(state.queryHistory?.map(record => record.newSources), [2, 0]);
+  });
+
+  it("scores each source once and keeps the scores across iterations", async () => {
+    const llm = new ScriptedLLMProvider(script([incomplete, complete], { filter: scoreReply({ 1: 5, 2: 6, 3: 9 }) }));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)], q3: [result(3)] });
+
+    const { state } = await runResearch("EVs", { llm, search, configurable: { maxSources: 2 } });
+
+    assert.deepEqual(llm.callsFor("filter").map(call => (call.prompt.match(/Title: Source \d/g) || []).join()), [
+      "Title: Source 1,Title: Source 2",
+      "Title: Source 3",
+    ]);
+    assert.deepEqual(state.results?.flatMap(r => r.searchResults.results.map(s => s.score?.relevance)), [5, 6, 9]);
+    assert.deepEqual(state.filteredResults?.[0].searchResults.map(r => r.title), ["Source 3", "Source 2"]);
+  });
+
+  it("summarizes the full page text and packs the sources of the report prompt to the context budget", async () => {
+    const llm = new ScriptedLLMProvider(script([complete], { summarizer: "summary", filter: scoreReply({ 1: 8, 2: 8 }) }));
+    const search = new StaticSearchProvider({ q1: [{ ...result(1), rawContent: "Full text of page 1." }], q2: [result(2)] });
+
+    await runResearch("EVs", { llm, search, configurable: { contextTokens: 20 } });
+
+    assert.match(llm.callsFor("summarizer")[0].prompt, /<Raw Content>Full text of page 1\.<\/Raw Content>/);
+    assert.match(llm.callsFor("writer")[0].prompt, /Refined Content: …/);
+  });
+
+  it("researches each sub-question in its own branch and merges them before Write", async () => {
+    const llm = new ScriptedLLMProvider(script([], {
+      planner: planReply(["q1", "q2"], ["q3"]),
+      // The first sub-question is answered at once; the second one never is
+      evaluator: request => request.prompt.includes("<Research Topic>Question 1<") ? complete : '{"isComplete": false, "queries": ["q4"]}',
+      filter: scoreReply({ 1: 8, 2: 9, 3: 7, 4: 6 }),
+    }));
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)], q3: [result(3)], q4: [result(4)] });
+    const events: ResearchEvent[] = [];
+
+    const { visited, state } = await runResearch("EVs", {
+      llm, search, configurable: { maxIterations: 2, maxSources: 3, onEvent: (event: ResearchEvent) => events.push(event) },
+    });
+
+    assert.deepEqual(visited.filter(node => node === "Search").length, 3);
+    assert.deepEqual(visited.slice(-3), ["Merge", "Write", "Verify"]);
+    assert.deepEqual(state.subQuestions, [
+      { id: 1, question: "Question 1", status: "answered", iterationCount: 1, sources: 2 },
+      { id: 2, question: "Question 2", status: "open", reason: "reached the maximum of 2 iterations", iterationCount: 2, sources: 1 },
+    ]);
+    assert.deepEqual(events.find(e => e.type === "sub_questions_merged"),
+      { type: "sub_questions_merged", answered: ["Question 1"], open: ["Question 2"] });
+    // The best sources of each sub-question, in turn
+    assert.deepEqual(state.filteredResults?.[0].searchResults.map(r => r.title), ["Source 2", "Source 3", "Source 1"]);
+    assert.deepEqual(state.results?.map(r => r.query), ["q1", "q2", "q3", "q4"]);
+    assert.deepEqual(state.queryHistory?.map(record => [record.query, record.subQuestion]), [["q1", 1], ["q2", 1], ["q3", 2], ["q4", 2]]);
+    assert.equal(state.iterationCount, 2);
+    assert.equal(state.usage?.totals.llmCalls, llm.calls.length);
+    assert.equal(state.usage?.totals.searchCalls, 4);
+  });
+
+  it("bounds the summaries of all branches of a run by one concurrency limit", async () => {
+    const scripted = new ScriptedLLMProvider(script([complete], { planner: planReply(["q1"], ["q2"]) }));
+    const llm = new SlowLLMProvider(scripted, "summarizer");
+    const search = new StaticSearchProvider({ q1: [result(1), result(2), result(3)], q2: [result(4), result(5), result(6)] });
+
+    await runResearch("EVs", { llm, search, configurable: { concurrency: 2 } });
+
+    assert.equal(scripted.callsFor("summarizer").length, 6);
+    assert.equal(llm.peak, 2);
+  });
+
+  it("bounds the searches of all branches of a run by one concurrency limit", async () => {
+    const llm = new ScriptedLLMProvider(script([complete], { planner: planReply(["q1", "q2"], ["q3", "q4"]) }));
+    const canned = new StaticSearchProvider(query => [result(query)]);
+    let inFlight = 0;
+    let peak = 0;
+    const search = {
+      name: "slow",
+      search: async (query: string, options: { maxResults: number }) => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return canned.search(query, options);
+      },
+    };
+
+    await runResearch("EVs", { llm, search, configurable: { concurrency: 2 } });
+
+    assert.equal(canned.queries.length, 4);
+    assert.equal(peak, 2);
+  });
+
+  it("shares the search budget left among the sub-questions", async () => {
+    const llm = new ScriptedLLMProvider(script([complete], { planner: planReply(["q1", "q2"], ["q3", "q4"]) }));
+    const search = new StaticSearchProvider(() => [result(1)]);
+
+    const { state } = await runResearch("EVs", { llm, search, configurable: { budget: { maxSearchCalls: 3 } } });
+
+    assert.deepEqual([...search.queries].sort(), ["q1", "q2", "q3"]);
+    assert.equal(state.usage?.searchCalls, 3);
+  });
+
+  it("writes in the topic's language and searches the other query languages too", async () => {
+    const llm = new ScriptedLLMProvider(script([incomplete, complete]));
+    const search = new StaticSearchProvider({ q1: [{ ...result(1), rawContent: "The battery costs less." }], q2: [result(2)] });
+
+    const { state } = await runResearch("Quais são os custos dos carros elétricos?", {
+      llm, search, configurable: { maxQueries: 2, queryLanguages: ["en"] },
+    });
+
+    assert.deepEqual(state.languages, { topic: "pt", report: "pt", queries: ["pt", "en"] });
+    const plan = llm.callsFor("planner")[0].prompt;
+    assert.match(plan, /at most 3 sub-questions and 4 queries in total/);
+    assert.match(plan, /Write the sub-questions in Portuguese\. Write every query in each of these languages: Portuguese, English\./);
+    assert.ok(llm.callsFor("summarizer").every(call => call.prompt.includes("Write the summary in Portuguese")));
+    assert.match(llm.callsFor("evaluator")[0].prompt, /Write every query in each of these languages: Portuguese, English\./);
+    // Sources keep their own language; only the report's headings are translated
+    assert.equal(state.results?.[0].searchResults.results[0].language, "en");
+    assert.equal(state.report?.language, "pt");
+    assert.match(state.report?.content ?? "", /^## Introdução$[\s\S]*^## Referências$/m);
+  });
+
+  it("applies the source policy to every search and records the rules each source matched", async () => {
+    const llm = new ScriptedLLMProvider(script([complete], { filter: scoreReply({ 1: 8, 2: 8, 3: 8, 4: 8 }) }));
+    const search = new StaticSearchProvider({
+      q1: [{ ...result(1), link: "https://spam.example.org/1" }, { ...result(2), link: "https://nih.gov/2" }],
+      q2: [{ ...result(3), link: "https://blog.net/3" }, { ...result(4), link: "https://blog.net/4" }],
+    });
+
+    const { state } = await runResearch("EVs", {
+      llm, search, configurable: { sourcePolicy: { excludeDomains: ["example.org"], maxAgeDays: 7, maxPerDomain: 1 } },
+    });
+
+    assert.deepEqual(search.options[0], { maxResults: 5, searchDepth: "basic", excludeDomains: ["example.org"], timeRange: "week" });
+    assert.deepEqual(state.rejectedSources, [
+      { title: "Source 1", link: "https://spam.example.org/1", query: "q1", rule: "excludeDomains: example.org" },
+    ]);
+    // The trusted government source ranks first; the second source of blog.net is left out
+    const selected = state.filteredResults?.[0].searchResults;
+    assert.deepEqual(selected?.map(source => source.title), ["Source 2", "Source 3"]);
+    assert.deepEqual(selected?.[0].policy, { tier: "trusted", rules: ["trustedDomains: gov", "maxAgeDays: no publication date"] });
+  });
+});
@@ -0,0 +1,102 @@
+import { mock } from "node:test";
+import { researcher, ResearchState } from "../src/graph";
+import { GenerateRequest, GenerateResponse, LLMProvider, ModelRole } from "../src/providers/llm";
+import { SearchProvider } from "../src/providers/search";
+import { SearchResult } from "../src/models/search";
+import { createLogger, setLogger } from "../src/utils/logger";
+
+export interface RunResearchOptions {
+  llm: LLMProvider;
+  search: SearchProvider;
+  configurable?: Record<string, unknown>;
+}
+
+export interface ResearchRun {
+  visited: string[]; // Node names in the order they ran
+  state: ResearchState; // Final graph state
+}
+
+// Chunks of a stream with streamMode ["updates", "values"]: each node's update, keyed by node name,
+// or the whole state after a step
+type ResearchStreamChunk = ["updates", Record<string, unknown>] | ["values", ResearchState];
+
+// Run the researcher graph with injected providers, recording the nodes it visits
+export async function runResearch(topic: string, options: RunResearchOptions): Promise<ResearchRun> {
+  const visited: string[] = [];
+  let state: ResearchState = {};
+
+  const stream = await researcher.stream({ topic }, {
+    streamMode: ["updates", "values"],
+    configurable: { llm: options.llm, search: options.search, ...options.configurable },
+  });
+
+  for await (const [mode, chunk] of stream as AsyncIterable<ResearchStreamChunk>) {
+    if (mode === "updates") {
+      visited.push(...Object.keys(chunk));
+    } else {
+      state = chunk;
+    }
+  }
+
+  return { visited, state };
+}
+
+// Build a search result with predictable fields
+export function result(id: string | number, content: string = `Content of source ${id}`): SearchResult {
+  return { title: `Source ${id}`, link: `https://example.com/${id}`, content };
+}
+
+// Scripted planner reply with a sub-question for each list of queries
+export function planReply(...queries: string[][]): string {
+  return JSON.stringify({ subQuestions: queries.map((list, i) => ({ question: `Question ${i + 1}`, queries: list })) });
+}
+
+// Scripted filter reply scoring every source of the prompt by its number ("Source n"):
+// listed sources get the given relevance, the others 0, which leaves them out of the report
+export function scoreReply(relevance: Record<string, number> = {}): (request: GenerateRequest) => string {
+  return request => JSON.stringify({
+    scores: Array.from(request.prompt.matchAll(/<Source id="([^"]+)">\nTitle: Source (\S+)/g), ([, id, n]) => ({
+      id, relevance: relevance[n] ?? 0, reliability: 5, recency: 5, rationale: `source ${n}`,
+    })),
+  });
+}
+
+// Scripted writer for reports written section by section: an outline with one section citing
+// source 1, then the same text for that section, the introduction and the conclusion
+export function sectionWriter(text: string = "Body [Ref. 1]", title: string = "EV Guide"): (request: GenerateRequest) => string {
+  return request => request.responseSchema
+    ? JSON.stringify({ title, sections: [{ heading: "Findings", description: "What was found", sources: [1] }] })
+    : text;
+}
+
+// Provider whose calls for one role take a few milliseconds, recording how many were in flight at once
+export class SlowLLMProvider implements LLMProvider {
+  readonly name = "slow";
+  peak = 0;
+  private inFlight = 0;
+
+  constructor(private llm: LLMProvider, private role: ModelRole, private delayMs: number = 5) {}
+
+  modelFor(role: ModelRole): string {
+    return this.llm.modelFor(role);
+  }
+
+  async generate(request: GenerateRequest): Promise<GenerateResponse> {
+    if (request.role !== this.role) return this.llm.generate(request);
+    this.peak = Math.max(this.peak, ++this.inFlight);
+    try {
+      await new Promise(resolve => setTimeout(resolve, this.delayMs));
+      return await this.llm.generate(request);
+    } finally {
+      this.inFlight--;
+    }
+  }
+}
+
+// Keep test output readable: the nodes log every step
+export function muteConsole(): void {
+  setLogger(createLogger({ level: "silent" }));
+  for (const method of ["log", "warn", "error"] as const) {
+    mock.method(console, method, () => {});
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectLanguage, languageCode, languageName, reportHeadings, resolveLanguages } from "../src/utils/language";
+import { reportBody } from "../src/utils/citations";
+
+describe("languages", () => {
+  it("detects the language of a topic from its common words and letters", () => {
+    assert.equal(detectLanguage("What are the health effects of intermittent fasting?"), "en");
+    assert.equal(detectLanguage("Quais são os efeitos da inteligência artificial no mercado de trabalho?"), "pt");
+    assert.equal(detectLanguage("¿Cuáles son los efectos del cambio climático en la agricultura?"), "es");
+    assert.equal(detectLanguage("Quels sont les effets du changement climatique sur l'agriculture ?"), "fr");
+    assert.equal(detectLanguage("Welche Auswirkungen hat der Klimawandel auf die Landwirtschaft?"), "de");
+    assert.equal(detectLanguage("Quali sono gli effetti della dieta mediterranea?"), "it");
+    assert.equal(detectLanguage("LangGraph RAG"), "en");
+  });
+
+  it("names languages given as codes, regional codes or names", () => {
+    assert.equal(languageCode("pt-BR"), "pt");
+    assert.equal(languageCode("Spanish"), "es");
+    assert.equal(languageCode("ja"), undefined);
+    assert.equal(languageName("pt_BR"), "Portuguese");
+    assert.equal(languageName(" Japanese "), "Japanese");
+  });
+
+  it("writes the report in the topic's language unless told otherwise, and searches it first", () => {
+    assert.deepEqual(resolveLanguages("Quais são os efeitos da cafeína?", "auto", ["en", "Portuguese"]),
+      { topic: "pt", report: "pt", queries: ["pt", "en"] });
+    assert.deepEqual(resolveLanguages("Effects of caffeine", "es"), { topic: "en", report: "es", queries: ["en"] });
+  });
+
+  it("translates the headings the writer adds, and finds the references section in any of them", () => {
+    assert.deepEqual(reportHeadings("pt"), { introduction: "Introdução", conclusion: "Conclusão", references: "Referências" });
+    assert.deepEqual(reportHeadings("Japanese"), reportHeadings());
+    assert.equal(reportBody("# T\n\nTexte [Ref. 1]\n\n## Références\n\n- source"), "# T\n\nTexte [Ref. 1]");
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, mkdirSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+import { htmlToText, LocalCorpusProvider } from "../src/providers/search/local";
+import { BM25Index, tokenize } from "../src/utils/bm25";
+import { muteConsole } from "./helpers";
+
+muteConsole();
+
+// A corpus folder with one file of each text type, plus files the index must skip
+function corpus(): string {
+  const directory = mkdtempSync(path.join(os.tmpdir(), "corpus-"));
+  writeFileSync(path.join(directory, "batteries.md"), [
+    "# Battery Recycling",
+    "Lithium batteries are recycled to recover lithium, cobalt and nickel.",
+    "Charging habits barely change how long a battery lasts.",
+    "Recycling plants shred the batteries before recovering the metals.",
+  ].join("\n\n"));
+  writeFileSync(path.join(directory, "charging.html"), [
+    "<html><head><title>Charging &amp; Networks</title><style>p { color: red }</style></head>",
+    "<body><h1>Fast charging</h1><p>Public charging networks grew&nbsp;fast.</p>",
+    "<script>var charging = 1;</script><p>Most charging still happens at home.</p></body></html>",
+  ].join("\n"));
+  writeFileSync(path.join(directory, "notes.txt"), "Notes on tyres and brakes.");
+  mkdirSync(path.join(directory, ".hidden"));
+  writeFileSync(path.join(directory, ".hidden", "charging.md"), "Charging charging charging.");
+  writeFileSync(path.join(directory, "charging.json"), '{"charging": true}');
+  return directory;
+}
+
+describe("local corpus", () => {
+  it("ranks documents by BM25, leaving out those that match no term", () => {
+    const index = new BM25Index([
+      { item: "short", text: "charging networks" },
+      { item: "long", text: "charging networks and many other words about cars, roads and weather" },
+      { item: "rare", text: "recycling recycling" },
+      { item: "none", text: "tyres" },
+    ]);
+
+    assert.deepEqual(tokenize("Fast-charging, 2025 a"), ["fast", "charging", "2025"]);
+    assert.deepEqual(index.search("charging networks").map(match => match.item), ["short", "long"]);
+    assert.deepEqual(index.search("charging recycling").map(match => match.item), ["rare", "short", "long"]);
+    assert.deepEqual(index.search("charging", 1).map(match => match.item), ["short"]);
+  });
+
+  it("reduces HTML pages to their title and readable text", () => {
+    const { title, text } = htmlToText("<head><title>A &amp; B</title></head><script>x()</script><p>One&nbsp;two</p><p>&lt;three&gt;</p>");
+
+    assert.equal(title, "A & B");
+    assert.equal(text, "One two\n\n<three>");
+  });
+
+  it("returns one result per file, with its best passages and its titles", async () => {
+    const directory = corpus();
+    const local = new LocalCorpusProvider({ directory, passageSize: 80, passagesPerResult: 2 });
+
+    const results = await local.search("charging networks", { maxResults: 5 });
+
+    assert.deepEqual(results.map(result => result.title), ["Charging & Networks", "Battery Recycling"]);
+    assert.equal(results[0].link, pathToFileURL(path.join(directory, "charging.html")).href);
+    assert.equal(results[0].origin, "local");
+    // Scripts and styles are stripped; the best passages of a file are joined into its content
+    assert.doesNotMatch(results[0].rawContent ?? "", /var charging|color: red|<p>/);
+    assert.match(results[0].content, /Public charging networks grew fast\./);
+    assert.equal(results[1].content, "Charging habits barely change how long a battery lasts.");
+  });
+
+  it("keeps only maxResults files", async () => {
+    const local = new LocalCorpusProvider({ directory: corpus() });
+
+    const results = await local.search("charging recycling tyres", { maxResults: 2 });
+
+    assert.equal(results.length, 2);
+    assert.deepEqual(await local.search("unrelated", { maxResults: 2 }), []);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createLogger, loggerOptionsFromEnv } from "../src/utils/logger";
+
+// Logger that keeps its lines
+function capture(options: Parameters<typeof createLogger>[0] = {}) {
+  const lines: string[] = [];
+  return { lines, logger: createLogger({ ...options, write: line => lines.push(line) }) };
+}
+
+describe("logger", () => {
+  it("drops messages below its level", () => {
+    const { lines, logger } = capture({ level: "warn" });
+
+    logger.debug("debug");
+    logger.info("info");
+    logger.warn("careful");
+    logger.error("failed", { error: new Error("timeout") });
+
+    assert.deepEqual(lines, ["Warning: careful", "Error: failed (error=timeout)"]);
+  });
+
+  it("logs nothing when silent", () => {
+    const { lines, logger } = capture({ level: "silent" });
+
+    logger.error("failed");
+
+    assert.deepEqual(lines, []);
+  });
+
+  it("writes one JSON object per message in json format", () => {
+    const { lines, logger } = capture({ format: "json" });
+
+    logger.info("Searching", { query: "EVs", iteration: 1 });
+
+    const entry = JSON.parse(lines[0]);
+    assert.equal(entry.level, "info");
+    assert.equal(entry.message, "Searching");
+    assert.equal(entry.query, "EVs");
+    assert.equal(entry.iteration, 1);
+    assert.ok(!Number.isNaN(Date.parse(entry.time)));
+  });
+
+  it("reads its options from the environment, ignoring unknown values", () => {
+    assert.deepEqual(loggerOptionsFromEnv({ LOG_LEVEL: "debug", LOG_FORMAT: "json" }), { level: "debug", format: "json" });
+    assert.deepEqual(loggerOptionsFromEnv({ LOG_LEVEL: "loud" }), { level: undefined, format: undefined });
+  });
+});
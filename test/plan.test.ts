@@ -0,0 +1,83 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateResearchPlan, extractQueriesFromPlanText, limitPlan } from "../src/nodes/plan";
+import { ScriptedLLMProvider } from "../src/providers/llm";
+import { muteConsole, planReply } from "./helpers";
+
+muteConsole();
+
+describe("extractQueriesFromPlanText", () => {
+  it("prefers quoted strings", () => {
+    const plan = 'Search for "EV prices Brazil" and then "charging network Brazil".';
+    assert.deepEqual(extractQueriesFromPlanText(plan, 5), ["EV prices Brazil", "charging network Brazil"]);
+  });
+
+  it("falls back to list items without list markers", () => {
+    const plan = "Queries:\n1. EV prices in Brazil\n2. Charging network:\n* Battery warranty\nUnrelated line";
+    assert.deepEqual(extractQueriesFromPlanText(plan, 5), ["EV prices in Brazil", "Charging network", "Battery warranty"]);
+  });
+
+  it("limits the number of queries", () => {
+    assert.deepEqual(extractQueriesFromPlanText('"a" "b" "c"', 2), ["a", "b"]);
+  });
+
+  it("returns every query when the limit is 0", () => {
+    assert.deepEqual(extractQueriesFromPlanText('"a" "b" "c"', 0), ["a", "b", "c"]);
+  });
+});
+
+describe("limitPlan", () => {
+  const plan = [
+    { question: "A?", queries: ["a1", "a2", "a3"] },
+    { question: "B?", queries: ["b1"] },
+    { question: "C?", queries: ["c1", "c2"] },
+  ];
+
+  it("takes the queries from each sub-question in turn", () => {
+    assert.deepEqual(limitPlan(plan, 3, 5).map(q => q.queries), [["a1", "a2"], ["b1"], ["c1", "c2"]]);
+  });
+
+  it("drops the sub-questions beyond maxSubQuestions, or that no query is left for", () => {
+    assert.deepEqual(limitPlan(plan, 2, 10).map(q => q.question), ["A?", "B?"]);
+    assert.deepEqual(limitPlan(plan, 3, 2), [{ question: "A?", queries: ["a1"] }, { question: "B?", queries: ["b1"] }]);
+  });
+});
+
+describe("generateResearchPlan", () => {
+  it("returns the planned sub-questions and queries in a single call, capped at maxQueries", async () => {
+    const llm = new ScriptedLLMProvider({ planner: planReply(["q1", "q2"], ["q3"]) });
+
+    assert.deepEqual(await generateResearchPlan("topic", 2, llm), {
+      subQuestions: [{ question: "Question 1", queries: ["q1"] }, { question: "Question 2", queries: ["q3"] }],
+      queries: ["q1", "q3"],
+    });
+    assert.deepEqual(llm.calls.map(call => call.role), ["planner"]);
+    assert.match(llm.calls[0].prompt, /at most 3 sub-questions and 2 queries in total/);
+    assert.match(llm.calls[0].prompt, /Research Topic: topic/);
+    assert.equal((llm.calls[0].responseSchema as { type: string }).type, "object");
+  });
+
+  it("repairs an invalid response", async () => {
+    const llm = new ScriptedLLMProvider({ planner: ['{"queries": ["x"]}', planReply(["q1"])] });
+
+    assert.deepEqual((await generateResearchPlan("topic", 5, llm)).queries, ["q1"]);
+    assert.match(llm.calls[1].prompt, /previous response was invalid \(subQuestions: Required\)/);
+  });
+
+  it("extracts from the plan text and records the fallback when repairs fail", async () => {
+    const llm = new ScriptedLLMProvider({ planner: '1. "first query"\n2. "second query"' });
+
+    const plan = await generateResearchPlan("topic", 5, llm);
+    assert.deepEqual(plan.subQuestions, [{ question: "topic", queries: ["first query", "second query"] }]);
+    assert.equal(plan.fallback?.action, "extracted 2 queries from the plan text");
+    assert.equal(llm.calls.length, 3);
+  });
+
+  it("searches the topic itself when nothing can be extracted", async () => {
+    const llm = new ScriptedLLMProvider({ planner: "nothing useful" });
+
+    const plan = await generateResearchPlan("topic", 5, llm);
+    assert.deepEqual(plan.queries, ["topic"]);
+    assert.equal(plan.fallback?.action, "searching the topic itself");
+  });
+});
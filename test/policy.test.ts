@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applySourcePolicy, checkSource, domainCap, domainOf, matchDomain, searchFilters } from "../src/utils/policy";
+import { SourcePolicy } from "../src/models/policy";
+import { result } from "./helpers";
+
+const now = Date.parse("2025-05-04T10:00:00Z");
+
+function source(link: string, publishedDate?: string) {
+  return { ...result(1), link, ...(publishedDate ? { publishedDate } : {}) };
+}
+
+describe("source policy", () => {
+  it("matches domains, their subdomains and suffixes", () => {
+    assert.equal(domainOf("https://www.NIH.gov/health"), "nih.gov");
+    assert.equal(domainOf("file:///corpus/notes.md"), "");
+    assert.equal(matchDomain("data.nih.gov", ["example.com", "gov"]), "gov");
+    assert.equal(matchDomain("nih.gov", ["*.nih.gov"]), "*.nih.gov");
+    assert.equal(matchDomain("notgov.com", ["gov"]), undefined);
+  });
+
+  it("rejects excluded, unlisted and outdated sources with the rule that dropped them", () => {
+    const policy: SourcePolicy = { includeDomains: ["gov", "who.int"], excludeDomains: ["old.cdc.gov"], maxAgeDays: 365 };
+
+    assert.equal(checkSource(source("https://old.cdc.gov/a"), policy, now).rejected, "excludeDomains: old.cdc.gov");
+    assert.equal(checkSource(source("https://blog.example.com/a"), policy, now).rejected, "includeDomains: blog.example.com is not listed");
+    assert.equal(checkSource(source("https://cdc.gov/a", "2023-01-01"), policy, now).rejected, "maxAgeDays: published 2023-01-01, 854 days ago");
+    assert.deepEqual(checkSource(source("https://cdc.gov/a", "2025-01-01T08:00:00Z"), policy, now),
+      { tier: "standard", rules: ["includeDomains: gov", "maxAgeDays: published 2025-01-01"] });
+    assert.deepEqual(checkSource(source("https://who.int/a"), policy, now),
+      { tier: "standard", rules: ["includeDomains: who.int", "maxAgeDays: no publication date"] });
+    // Domain rules do not apply to local files
+    assert.deepEqual(checkSource(source("file:///corpus/a.md"), { includeDomains: ["gov"] }, now), { tier: "standard", rules: [] });
+  });
+
+  it("records the trust tier of each allowed source", () => {
+    const policy: SourcePolicy = { trustedDomains: ["edu"], untrustedDomains: ["example.com"] };
+
+    const { allowed, rejected } = applySourcePolicy([source("https://mit.edu/a"), source("https://seo.example.com/b")], "q", policy, now);
+
+    assert.deepEqual(rejected, []);
+    assert.deepEqual(allowed.map(s => s.policy), [
+      { tier: "trusted", rules: ["trustedDomains: edu"] },
+      { tier: "untrusted", rules: ["untrustedDomains: example.com"] },
+    ]);
+  });
+
+  it("passes the domain lists, a time range and the topic on to the search providers", () => {
+    assert.deepEqual(searchFilters({ includeDomains: ["gov"], excludeDomains: [], maxAgeDays: 30, searchTopic: "news" }),
+      { includeDomains: ["gov"], timeRange: "month", topic: "news" });
+    assert.deepEqual(searchFilters({ maxAgeDays: 1000, trustedDomains: ["edu"] }), {});
+  });
+
+  it("caps the sources of each domain", () => {
+    const keep = domainCap(1);
+    const kept = [source("https://a.com/1"), source("https://www.a.com/2"), source("https://b.com/1"), source("file:///x")].filter(keep);
+    assert.deepEqual(kept.map(s => s.link), ["https://a.com/1", "https://b.com/1", "file:///x"]);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeQuery, querySimilarity, suppressDuplicateQueries } from "../src/utils/queries";
+
+describe("duplicate queries", () => {
+  it("normalizes case, accents, punctuation, stopwords, plurals and word order", () => {
+    assert.deepEqual(normalizeQuery("Prices of Electric Cars in 2025?"), ["2025", "car", "electric", "price"]);
+    assert.deepEqual(normalizeQuery("preço dos carros elétricos"), ["carro", "eletrico", "preco"]);
+    assert.equal(querySimilarity("electric car prices 2025", "2025: the price of electric cars"), 1);
+  });
+
+  it("scores partly overlapping queries by their shared tokens", () => {
+    assert.equal(querySimilarity("best electric cars brazil 2025", "best electric cars brazil"), 0.8);
+    assert.equal(querySimilarity("EV charging stations", "battery recycling"), 0);
+  });
+
+  it("suppresses queries close to earlier ones or to each other", () => {
+    const { queries, suppressed } = suppressDuplicateQueries(
+      ["Electric car prices", "EV tax incentives", "tax incentives for EVs", "charging network coverage"],
+      ["prices of electric cars"],
+    );
+
+    assert.deepEqual(queries, ["EV tax incentives", "charging network coverage"]);
+    assert.deepEqual(suppressed, [
+      { query: "Electric car prices", duplicateOf: "prices of electric cars" },
+      { query: "tax incentives for EVs", duplicateOf: "EV tax incentives" },
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Command, MemorySaver } from "@langchain/langgraph";
+import { createResearcher } from "../src/graph";
+import { ScriptedLLMProvider, Script } from "../src/providers/llm/fake";
+import { StaticSearchProvider } from "../src/providers/search";
+import { applyPlanReview, applySourceReview, applySubQuestionReview } from "../src/nodes/review";
+import { muteConsole, scoreReply, result, planReply } from "./helpers";
+
+muteConsole();
+
+const script: Script = {
+  planner: planReply(["q1", "q2"]),
+  summarizer: "summary",
+  evaluator: '{"isComplete": true, "queries": []}',
+  filter: scoreReply({ 1: 8 }),
+  writer: "# Report\n\nBody",
+};
+
+describe("human review", () => {
+  it("pauses after Plan and searches the reviewed queries, added ones under the topic", async () => {
+    const researcher = createResearcher(new MemorySaver());
+    const llm = new ScriptedLLMProvider(script);
+    const search = new StaticSearchProvider({ q1: [result(1)], q3: [result(3)] });
+    const config = { configurable: { thread_id: "plan", llm, search, review: { plan: true } } };
+
+    await researcher.invoke({ topic: "EVs" }, config);
+    const snapshot = await researcher.getState(config);
+    assert.deepEqual(snapshot.next, ["ReviewPlan"]);
+    assert.deepEqual(snapshot.tasks[0].interrupts[0].value, {
+      type: "plan", topic: "EVs", queries: ["q1", "q2"], subQuestions: [{ question: "Question 1", queries: ["q1", "q2"] }],
+    });
+    assert.deepEqual(search.queries, []);
+
+    const state = await researcher.invoke(new Command({ resume: { queries: ["q1", "", " q3 "] } }), config);
+
+    assert.deepEqual([...search.queries].sort(), ["q1", "q3"]);
+    assert.deepEqual(state.plan, [{ question: "Question 1", queries: ["q1"] }, { question: "EVs", queries: ["q3"] }]);
+    assert.deepEqual(state.subQuestions?.map(q => q.question), ["Question 1", "EVs"]);
+    assert.equal(state.report?.title, "Report");
+  });
+
+  it("pauses before Write and applies pinned and excluded sources and notes", async () => {
+    const researcher = createResearcher(new MemorySaver());
+    const llm = new ScriptedLLMProvider(script);
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+    const config = { configurable: { thread_id: "sources", llm, search, review: { sources: true } } };
+
+    await researcher.invoke({ topic: "EVs" }, config);
+    const snapshot = await researcher.getState(config);
+    assert.deepEqual(snapshot.next, ["ReviewSources"]);
+    const request = snapshot.tasks[0].interrupts[0].value;
+    assert.deepEqual(request.sources.map((s: { link: string }) => s.link), ["https://example.com/1"]);
+    assert.equal(request.candidates.length, 2);
+
+    const state = await researcher.invoke(new Command({
+      resume: { pin: ["https://example.com/2"], exclude: ["https://example.com/1"], notes: "Focus on batteries" },
+    }), config);
+
+    assert.deepEqual(state.filteredResults?.flatMap(r => r.searchResults.map(s => s.link)), ["https://example.com/2"]);
+    assert.equal(state.writerNotes, "Focus on batteries");
+    assert.match(llm.callsFor("writer")[0].prompt, /Focus on batteries/);
+    assert.doesNotMatch(llm.callsFor("writer")[0].prompt, /example\.com\/1/);
+  });
+
+  it("writes without sources, never with the excluded ones, when the review excludes them all", async () => {
+    const researcher = createResearcher(new MemorySaver());
+    const llm = new ScriptedLLMProvider(script);
+    const search = new StaticSearchProvider({ q1: [result(1)], q2: [result(2)] });
+    const config = { configurable: { thread_id: "exclude-all", llm, search, review: { sources: true } } };
+    await researcher.invoke({ topic: "EVs" }, config);
+
+    const state = await researcher.invoke(new Command({ resume: { exclude: ["https://example.com/1"] } }), config);
+
+    assert.deepEqual(state.filteredResults?.flatMap(r => r.searchResults.map(s => s.title)), ["No relevant results found"]);
+    assert.doesNotMatch(llm.callsFor("writer")[0].prompt, /example\.com\/1/);
+    assert.deepEqual(state.report?.sources.map(s => s.link), [""]);
+  });
+
+  it("keeps the planned queries when the review returns none", () => {
+    assert.deepEqual(applyPlanReview(["a", "b"], { queries: [" "] }), ["a", "b"]);
+  });
+
+  it("replaces the sub-questions with those of the review, dropping the ones without queries", () => {
+    const planned = [{ question: "Prices?", queries: ["a"] }];
+    assert.deepEqual(applySubQuestionReview("EVs", planned, {
+      subQuestions: [{ question: " Range? ", queries: ["b", " b", ""] }, { question: "Costs?", queries: [] }],
+    }), [{ question: "Range?", queries: ["b"] }]);
+    assert.deepEqual(applySubQuestionReview("EVs", planned, { subQuestions: [] }), planned);
+  });
+
+  it("keeps an edited query with the sub-question of the query it replaces", () => {
+    const planned = [{ question: "Prices?", queries: ["a", "b"] }, { question: "Range?", queries: ["c"] }];
+
+    // "c" edited into "c2", "a" deleted, "d" added
+    assert.deepEqual(applySubQuestionReview("EVs", planned, { queries: ["", "b", "c2", "d"] }), [
+      { question: "Prices?", queries: ["b"] },
+      { question: "Range?", queries: ["c2"] },
+      { question: "EVs", queries: ["d"] },
+    ]);
+    // A new query in the place of one that is kept was added
+    assert.deepEqual(applySubQuestionReview("EVs", planned, { queries: ["a", "b", "c", "d"] }).at(-1), { question: "EVs", queries: ["d"] });
+  });
+
+  it("never lets a pinned source override an exclusion", () => {
+    const sources = [result(1), result(2)];
+    const reviewed = applySourceReview(sources, sources, {
+      pin: ["https://example.com/2", "https://example.com/1"],
+      exclude: ["https://example.com/1"],
+    });
+    assert.deepEqual(reviewed.map(source => source.link), ["https://example.com/2"]);
+  });
+});
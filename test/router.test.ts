@@ -0,0 +1,151 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { ModelRouter, UsageStore, QuotaExhaustedError, LLMRequestError, ScriptedLLMProvider } from "../src/providers/llm";
+import { muteConsole } from "./helpers";
+
+muteConsole();
+
+// Clock that only moves when the router sleeps
+function fakeClock(start: number = Date.UTC(2025, 0, 1, 12)) {
+  const clock = {
+    time: start,
+    sleeps: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.sleeps.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock;
+}
+
+function httpError(status: number, message: string = "error"): LLMRequestError {
+  return new LLMRequestError(`request failed with status ${status}: ${message}`, status);
+}
+
+describe("ModelRouter", () => {
+  it("queues requests to stay under the per-minute limit", async () => {
+    const clock = fakeClock();
+    const inner = new ScriptedLLMProvider({ planner: "ok" });
+    const router = new ModelRouter(inner, {
+      limits: { "fake-planner": { requestsPerMinute: 2 } },
+      now: clock.now,
+      sleep: clock.sleep,
+    });
+
+    await Promise.all([1, 2, 3].map(() => router.generate({ role: "planner", prompt: "p" })));
+
+    assert.equal(inner.calls.length, 3);
+    assert.deepEqual(clock.sleeps, [60000]);
+  });
+
+  it("falls through the cascade when a model reaches its daily limit", async () => {
+    const clock = fakeClock();
+    const inner = new ScriptedLLMProvider({ writer: "ok" });
+    const router = new ModelRouter(inner, {
+      limits: { big: { requestsPerDay: 1 } },
+      cascade: ["big", "medium", "small"],
+      now: clock.now,
+      sleep: clock.sleep,
+    });
+
+    const first = await router.generate({ role: "writer", prompt: "p", model: "big" });
+    const second = await router.generate({ role: "writer", prompt: "p", model: "big" });
+
+    assert.equal(first.model, "big");
+    assert.equal(second.model, "medium");
+  });
+
+  it("falls through the cascade when the API reports the daily quota as spent", async () => {
+    const inner = new ScriptedLLMProvider({
+      writer: request => {
+        if (request.model === "big") throw httpError(429, "quotaId: GenerateRequestsPerDayPerProjectPerModel");
+        return "ok";
+      },
+    });
+    const router = new ModelRouter(inner, { cascade: ["big", "medium"], sleep: async () => {} });
+
+    assert.equal((await router.generate({ role: "writer", prompt: "p", model: "big" })).model, "medium");
+    // The exhausted model is skipped without another request
+    assert.equal((await router.generate({ role: "writer", prompt: "p", model: "big" })).model, "medium");
+    assert.equal(inner.calls.filter(call => call.model === "big").length, 1);
+  });
+
+  it("retries transient errors with backoff", async () => {
+    const clock = fakeClock();
+    const inner = new ScriptedLLMProvider({ evaluator: [httpError(503), httpError(429), "ok"] });
+    const router = new ModelRouter(inner, { baseDelayMs: 1000, now: clock.now, sleep: clock.sleep });
+
+    assert.equal((await router.generate({ role: "evaluator", prompt: "p" })).text, "ok");
+    assert.equal(inner.calls.length, 3);
+    assert.equal(clock.sleeps.length, 2);
+    assert.ok(clock.sleeps[1] > clock.sleeps[0] / 2);
+  });
+
+  it("does not retry fatal errors", async () => {
+    const inner = new ScriptedLLMProvider({ evaluator: [httpError(400, "bad request"), "ok"] });
+    const router = new ModelRouter(inner, { sleep: async () => {} });
+
+    await assert.rejects(router.generate({ role: "evaluator", prompt: "p" }), /bad request/);
+    assert.equal(inner.calls.length, 1);
+  });
+
+  it("gives up with QuotaExhaustedError when the last model is out of quota", async () => {
+    const inner = new ScriptedLLMProvider({ writer: httpError(429, "rate limited") });
+    const router = new ModelRouter(inner, { maxRetries: 1, sleep: async () => {} });
+
+    await assert.rejects(router.generate({ role: "writer", prompt: "p" }), QuotaExhaustedError);
+    assert.equal(inner.calls.length, 2);
+  });
+
+  it("persists usage counters so daily limits hold across runs", async () => {
+    const file = path.join(mkdtempSync(path.join(os.tmpdir(), "usage-")), "usage.json");
+    const clock = fakeClock();
+    const options = { limits: { big: { requestsPerDay: 1 } }, now: clock.now, sleep: clock.sleep };
+
+    const firstRun = new ModelRouter(new ScriptedLLMProvider({ writer: "ok" }), { ...options, usage: new UsageStore(file) });
+    await firstRun.generate({ role: "writer", prompt: "p", model: "big" });
+
+    const secondRun = new ModelRouter(new ScriptedLLMProvider({ writer: "ok" }), { ...options, usage: new UsageStore(file) });
+    await assert.rejects(secondRun.generate({ role: "writer", prompt: "p", model: "big" }), QuotaExhaustedError);
+
+    // Counters reset on the next day
+    clock.time += 24 * 60 * 60 * 1000;
+    assert.equal((await secondRun.generate({ role: "writer", prompt: "p", model: "big" })).text, "ok");
+  });
+
+  it("resets daily counters at midnight in the quota's time zone", async () => {
+    // 04:00 in Los Angeles, 12:00 UTC
+    const clock = fakeClock(Date.UTC(2025, 0, 1, 12));
+    const options = { limits: { big: { requestsPerDay: 1 } }, now: clock.now, sleep: clock.sleep };
+    const pacific = new ModelRouter(new ScriptedLLMProvider({ writer: "ok" }), { ...options, usage: new UsageStore() });
+    const utc = new ModelRouter(new ScriptedLLMProvider({ writer: "ok" }), { ...options, usage: new UsageStore(undefined, "UTC") });
+    for (const router of [pacific, utc]) await router.generate({ role: "writer", prompt: "p", model: "big" });
+
+    // Past midnight UTC, still January 1st in Los Angeles
+    clock.time = Date.UTC(2025, 0, 2, 7);
+    assert.equal((await utc.generate({ role: "writer", prompt: "p", model: "big" })).text, "ok");
+    await assert.rejects(pacific.generate({ role: "writer", prompt: "p", model: "big" }), QuotaExhaustedError);
+
+    clock.time = Date.UTC(2025, 0, 2, 8);
+    assert.equal((await pacific.generate({ role: "writer", prompt: "p", model: "big" })).text, "ok");
+    assert.throws(() => new UsageStore(undefined, "Mars/Olympus"), RangeError);
+  });
+
+  it("counts the requests of every process sharing the usage file", async () => {
+    const file = path.join(mkdtempSync(path.join(os.tmpdir(), "usage-")), "usage.json");
+    const now = Date.UTC(2025, 0, 1, 12);
+    const first = new UsageStore(file);
+    const second = new UsageStore(file);
+
+    first.record("big", now);
+    second.record("big", now + 1);
+    first.record("big", now + 2);
+
+    assert.equal(JSON.parse(readFileSync(file, "utf8")).big.requestsToday, 3);
+    assert.equal(second.get("big", now + 3).requestsToday, 3);
+  });
+});
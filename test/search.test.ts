@@ -0,0 +1,64 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { CompositeSearchProvider, SearxngProvider, StaticSearchProvider } from "../src/providers/search";
+import { muteConsole, result } from "./helpers";
+
+muteConsole();
+
+describe("search providers", () => {
+  it("maps SearXNG results, filling in missing fields", async () => {
+    const fetch = mock.method(globalThis, "fetch", async () => new Response(JSON.stringify({
+      results: [
+        { title: "EV prices", url: "https://example.com/prices", content: "Prices fell.", publishedDate: "2025-01-02" },
+        { url: "https://example.com/untitled", publishedDate: null },
+        { title: "Beyond maxResults", url: "https://example.com/more" },
+      ],
+    })));
+    try {
+      const searxng = new SearxngProvider({ baseUrl: "http://localhost:8888/", params: { language: "en" } });
+
+      const results = await searxng.search("ev prices", { maxResults: 2, timeRange: "month" });
+
+      assert.deepEqual(results, [
+        { title: "EV prices", link: "https://example.com/prices", content: "Prices fell.", publishedDate: "2025-01-02", origin: "searxng" },
+        { title: "No Title Provided", link: "https://example.com/untitled", content: "", origin: "searxng" },
+      ]);
+      assert.equal(String(fetch.mock.calls[0].arguments[0]),
+        "http://localhost:8888/search?language=en&time_range=month&q=ev+prices&format=json");
+    } finally {
+      fetch.mock.restore();
+    }
+  });
+
+  it("fails when the SearXNG instance answers with an error", async () => {
+    const fetch = mock.method(globalThis, "fetch", async () => new Response("", { status: 429 }));
+    try {
+      await assert.rejects(new SearxngProvider({ baseUrl: "http://localhost:8888" }).search("q", { maxResults: 5 }),
+        /SearXNG request failed with status 429/);
+    } finally {
+      fetch.mock.restore();
+    }
+  });
+
+  it("interleaves the results of several providers, keeping each link once", async () => {
+    const first = new StaticSearchProvider({ q: [result(1), result(2), result(3)] });
+    const second = new StaticSearchProvider({ q: [result(4), result(1)] });
+    const composite = new CompositeSearchProvider([first, second]);
+
+    const results = await composite.search("q", { maxResults: 3 });
+
+    assert.equal(composite.name, "static+static");
+    assert.deepEqual(results.map(r => r.title), ["Source 1", "Source 4", "Source 2", "Source 3"]);
+    assert.deepEqual(second.options, [{ maxResults: 3 }]);
+  });
+
+  it("keeps the results of the other providers when one fails", async () => {
+    const failing = new StaticSearchProvider({ q: new Error("search down") });
+    const working = new StaticSearchProvider({ q: [result(1), result(2)] });
+
+    const results = await new CompositeSearchProvider([failing, working]).search("q", { maxResults: 5 });
+
+    assert.deepEqual(results.map(r => r.title), ["Source 1", "Source 2"]);
+    assert.deepEqual(failing.queries, ["q"]);
+  });
+});
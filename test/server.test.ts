@@ -0,0 +1,124 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import http from "http";
+import { createResearcher } from "../src/graph";
+import { JobManager, createResearchServer } from "../src/server";
+import { ScriptedLLMProvider } from "../src/providers/llm";
+import { StaticSearchProvider, SearchProvider } from "../src/providers/search";
+import { JobEvent } from "../src/models/job";
+import { muteConsole, scoreReply, result, planReply } from "./helpers";
+
+muteConsole();
+
+const llm = new ScriptedLLMProvider({
+  planner: planReply(["q1", "blocked"]),
+  summarizer: "summary",
+  evaluator: '{"isComplete": true, "queries": []}',
+  filter: scoreReply({ 1: 8 }),
+  writer: "# EV Guide\n\nPrices fell [Ref. 1].",
+  verifier: '{"checks": [{"claim": 1, "supported": true}]}',
+});
+
+// The "blocked" query waits until released, to observe running jobs
+let release: () => void = () => {};
+const blocked = new Promise<void>(resolve => { release = resolve; });
+const searchResults = new StaticSearchProvider({ q1: [result(1)], blocked: [result(2)] });
+const search: SearchProvider = {
+  name: "gated",
+  search: async (query, options) => {
+    if (query === "blocked" && options.maxResults === 1) await blocked;
+    return searchResults.search(query, options);
+  },
+};
+
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+  server = createResearchServer(new JobManager(createResearcher(), { configurable: { llm, search } }));
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  release();
+  server.close();
+});
+
+async function startJob(body: unknown): Promise<Response> {
+  return fetch(`${baseUrl}/research`, { method: "POST", body: JSON.stringify(body) });
+}
+
+interface StreamedEvent {
+  id: number;
+  event: string;
+  data: JobEvent;
+}
+
+// Read a whole event stream (it closes after the "end" event)
+async function readEvents(id: string, headers: Record<string, string> = {}): Promise<StreamedEvent[]> {
+  const text = await (await fetch(`${baseUrl}/research/${id}/events`, { headers })).text();
+  return text.trim().split("\n\n").map(block => {
+    const fields = Object.fromEntries(block.split("\n").map(line => [line.slice(0, line.indexOf(":")), line.slice(line.indexOf(":") + 2)]));
+    return { id: Number(fields.id), event: fields.event, data: JSON.parse(fields.data) as JobEvent };
+  });
+}
+
+// The data of the streamed events of one type
+function eventsOf<T extends JobEvent["type"]>(events: StreamedEvent[], type: T): Array<Extract<JobEvent, { type: T }>> {
+  return events.map(e => e.data).filter((data): data is Extract<JobEvent, { type: T }> => data.type === type);
+}
+
+describe("research HTTP API", () => {
+  it("runs a job and streams its progress", async () => {
+    const response = await startJob({ topic: "EVs" });
+    assert.equal(response.status, 202);
+    const { id, status } = await response.json();
+    assert.equal(status, "running");
+    assert.equal(response.headers.get("location"), `/research/${id}`);
+
+    const events = await readEvents(id);
+    const types = events.map(e => e.event);
+    assert.deepEqual(types.slice(0, 4), ["node_started", "plan_generated", "node_finished", "node_started"]);
+    assert.deepEqual(events.find(e => e.event === "queries_issued")?.data, { type: "queries_issued", iteration: 1, queries: ["q1", "blocked"] });
+    assert.equal(eventsOf(events, "sources_added")[0].sources.length, 2);
+    assert.equal(eventsOf(events, "report_token").map(data => data.text).join(""), "# EV Guide\n\nPrices fell [Ref. 1].");
+    assert.deepEqual(events[events.length - 1].data, { type: "end", status: "completed" });
+    assert.deepEqual(events.map(e => e.id), events.map((_, i) => i));
+
+    const job = await (await fetch(`${baseUrl}/research/${id}`)).json();
+    assert.equal(job.status, "completed");
+    assert.equal(job.state.report.title, "EV Guide");
+    assert.equal(job.events, undefined);
+
+    // A reconnecting client only gets the events after the last one it saw
+    const rest = await readEvents(id, { "Last-Event-ID": String(events.length - 2) });
+    assert.deepEqual(rest.map(e => e.event), ["end"]);
+  });
+
+  it("cancels a running job", async () => {
+    const { id } = await (await startJob({ topic: "EVs", maxResults: 1 })).json();
+    const stream = readEvents(id);
+
+    const cancelled = await fetch(`${baseUrl}/research/${id}`, { method: "DELETE" });
+    assert.equal(cancelled.status, 200);
+    assert.equal((await cancelled.json()).status, "cancelled");
+
+    const events = await stream;
+    assert.deepEqual(events[events.length - 1].data, { type: "end", status: "cancelled" });
+    assert.equal((await fetch(`${baseUrl}/research/${id}`, { method: "DELETE" })).status, 409);
+  });
+
+  it("rejects invalid requests", async () => {
+    const missingTopic = await startJob({ topic: " ", maxIterations: 0 });
+    assert.equal(missingTopic.status, 400);
+    assert.match((await missingTopic.json()).error, /topic: .*; maxIterations: /);
+
+    const notJson = await fetch(`${baseUrl}/research`, { method: "POST", body: "{" });
+    assert.equal(notJson.status, 400);
+
+    assert.equal((await fetch(`${baseUrl}/research/unknown`)).status, 404);
+    assert.equal((await fetch(`${baseUrl}/research`)).status, 405);
+  });
+});
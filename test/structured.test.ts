@@ -0,0 +1,62 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { generateStructured, StructuredOutputError, toJsonSchema } from "../src/utils/structured";
+import { ScriptedLLMProvider } from "../src/providers/llm";
+import { muteConsole } from "./helpers";
+
+muteConsole();
+
+const schema = z.object({ queries: z.array(z.string()) });
+
+describe("generateStructured", () => {
+  it("passes the JSON schema to the provider and returns the validated reply", async () => {
+    const llm = new ScriptedLLMProvider({ planner: '{"queries": ["a", "b"]}' });
+
+    assert.deepEqual(await generateStructured(llm, { role: "planner", prompt: "Plan", schema }), { queries: ["a", "b"] });
+    assert.deepEqual(llm.calls[0].responseSchema, toJsonSchema(schema));
+    assert.match(llm.calls[0].prompt, /^Plan\n\nRespond with ONLY a JSON object matching this JSON schema:/);
+  });
+
+  it("accepts a reply wrapped in a code fence", async () => {
+    const llm = new ScriptedLLMProvider({ planner: 'Here you go:\n```json\n{"queries": ["a"]}\n```' });
+
+    assert.deepEqual(await generateStructured(llm, { role: "planner", prompt: "Plan", schema }), { queries: ["a"] });
+  });
+
+  it("sends invalid replies back with the validation errors until one is valid", async () => {
+    const llm = new ScriptedLLMProvider({ planner: ["not json", '{"queries": "a"}', '{"queries": ["a"]}'] });
+
+    assert.deepEqual(await generateStructured(llm, { role: "planner", prompt: "Plan", schema }), { queries: ["a"] });
+    assert.match(llm.calls[1].prompt, /invalid \(not valid JSON: .*\):\nnot json/);
+    assert.match(llm.calls[2].prompt, /invalid \(queries: Expected array, received string\)/);
+  });
+
+  it("gives up after maxAttempts, keeping the last reply", async () => {
+    const llm = new ScriptedLLMProvider({ planner: "still not json" });
+
+    await assert.rejects(
+      generateStructured(llm, { role: "planner", prompt: "Plan", schema, maxAttempts: 2 }),
+      (error: unknown) => error instanceof StructuredOutputError && error.lastText === "still not json"
+    );
+    assert.equal(llm.calls.length, 2);
+  });
+
+  it("does not retry failed calls", async () => {
+    const llm = new ScriptedLLMProvider({ planner: new Error("quota") });
+
+    await assert.rejects(generateStructured(llm, { role: "planner", prompt: "Plan", schema }), /quota/);
+    assert.equal(llm.calls.length, 1);
+  });
+});
+
+describe("toJsonSchema", () => {
+  it("produces a schema without the $schema keyword", () => {
+    assert.deepEqual(toJsonSchema(schema), {
+      type: "object",
+      properties: { queries: { type: "array", items: { type: "string" } } },
+      required: ["queries"],
+      additionalProperties: false,
+    });
+  });
+});
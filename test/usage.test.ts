@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MeteredLLMProvider, ScriptedLLMProvider } from "../src/providers/llm";
+import { addUsage, budgetExhausted, groupUsage, mergeUsage, remainingSearchCalls, splitBudget, startUsage } from "../src/utils/usage";
+
+const call = (model: string, inputTokens: number, outputTokens: number, cost: number = 0) =>
+  ({ model, inputTokens, outputTokens, cost });
+
+describe("usage accounting", () => {
+  it("groups calls by node, iteration and model and keeps the totals", () => {
+    let usage = addUsage(startUsage(0), "Search", 1, [call("basic", 100, 10, 0.01), call("basic", 50, 5, 0.005)], 2, 1000);
+    usage = addUsage(usage, "Evaluate", 1, [call("premium", 200, 20, 0.1)], 0, 3000);
+
+    assert.deepEqual(usage.entries.map(e => [e.node, e.iteration, e.model, e.calls, e.inputTokens, e.outputTokens]), [
+      ["Search", 1, "basic", 2, 150, 15],
+      ["Evaluate", 1, "premium", 1, 200, 20],
+    ]);
+    assert.equal(usage.totals.totalTokens, 385);
+    assert.equal(usage.totals.llmCalls, 3);
+    assert.equal(usage.totals.searchCalls, 2);
+    assert.equal(usage.totals.elapsedMs, 3000);
+    assert.ok(Math.abs(usage.totals.cost - 0.115) < 1e-9);
+    assert.deepEqual(groupUsage(usage.entries, "model").map(g => [g.key, g.calls]), [["basic", 2], ["premium", 1]]);
+  });
+
+  it("reports a budget as nearly used up past its reserve", () => {
+    const usage = addUsage(startUsage(0), "Search", 1, [call("basic", 850, 0, 0.5)], 2, 1000);
+
+    assert.equal(budgetExhausted(usage, { maxTokens: 1000 }, 1000), undefined);
+    assert.match(budgetExhausted(usage, { maxTokens: 1000, reserve: 0.2 }, 1000) ?? "", /token budget.*850 of 1000/);
+    assert.match(budgetExhausted(usage, { maxCost: 0.55 }, 1000) ?? "", /cost budget/);
+    assert.match(budgetExhausted(usage, { maxWallTimeMs: 60000 }, 58000) ?? "", /time budget/);
+    assert.match(budgetExhausted(usage, { maxSearchCalls: 2 }, 1000) ?? "", /search budget.*2 of 2/);
+    assert.equal(remainingSearchCalls(usage, { maxSearchCalls: 5 }), 3);
+    assert.equal(remainingSearchCalls(usage, {}), Infinity);
+  });
+
+  it("adds up what branches that started from the same usage added to it", () => {
+    const base = addUsage(startUsage(0), "Plan", 0, [call("basic", 100, 10)], 0, 1000);
+    const first = addUsage(base, "Search", 1, [call("basic", 50, 5)], 2, 2000);
+    const second = addUsage(addUsage(base, "Search", 1, [call("basic", 30, 3)], 1, 2000), "Evaluate", 1, [call("basic", 20, 2)], 0, 2500);
+
+    const merged = mergeUsage(base, [first, second], 3000);
+
+    assert.deepEqual(merged.entries.map(e => [e.node, e.calls, e.inputTokens, e.outputTokens]), [
+      ["Plan", 1, 100, 10], ["Search", 2, 80, 8], ["Evaluate", 1, 20, 2],
+    ]);
+    assert.equal(merged.searchCalls, 3);
+    assert.equal(merged.totals.llmCalls, 4);
+    assert.equal(merged.totals.elapsedMs, 3000);
+  });
+
+  it("splits what is left of a budget among branches", () => {
+    const usage = addUsage(startUsage(0), "Plan", 0, [call("basic", 100, 0, 1)], 1, 1000);
+
+    const shares = splitBudget({ maxTokens: 400, maxCost: 3, maxSearchCalls: 6, maxWallTimeMs: 60000 }, usage, 2);
+
+    assert.deepEqual(shares.map(share => [share.maxTokens, share.maxCost, share.maxSearchCalls, share.maxWallTimeMs]), [
+      [250, 2, 4, 60000], [250, 2, 3, 60000],
+    ]);
+    assert.deepEqual(splitBudget({}, usage, 1), [{ maxTokens: undefined, maxCost: undefined, maxSearchCalls: undefined }]);
+  });
+
+  it("meters calls with the reported usage, or an estimate, at the model's price", async () => {
+    const llm = new MeteredLLMProvider(new ScriptedLLMProvider({ planner: "12345678" }), {
+      "fake-planner": { input: 1, output: 2 },
+    });
+
+    await llm.generate({ role: "planner", prompt: "x".repeat(400) });
+
+    assert.deepEqual(llm.calls, [{ model: "fake-planner", inputTokens: 100, outputTokens: 2, cost: 104 / 1e6 }]);
+  });
+
+  it("prices dated model snapshots under their base name, or else under the model requested", async () => {
+    const prices = { "gpt-4o": { input: 2.5, output: 10 }, "gpt-4o-mini": { input: 0.15, output: 0.6 } };
+    const endpoint = (model: string) => new MeteredLLMProvider({
+      name: "openai",
+      modelFor: () => "gpt-4o-mini",
+      generate: async () => ({ text: "ok", model, usage: { inputTokens: 1e6, outputTokens: 0 } }),
+    }, prices);
+
+    for (const [reported, cost] of [["gpt-4o-mini-2024-07-18", 0.15], ["gpt-4o-2024-08-06", 2.5], ["snapshot-7", 0.15]] as const) {
+      const llm = endpoint(reported);
+      await llm.generate({ role: "writer", prompt: "p" });
+      assert.equal(llm.calls[0].cost, cost, reported);
+    }
+  });
+});
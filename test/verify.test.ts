@@ -0,0 +1,126 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractCitations, verifyCitations, flagCitations } from "../src/nodes/verify";
+import { ScriptedLLMProvider, Script } from "../src/providers/llm/fake";
+import { StaticSearchProvider } from "../src/providers/search";
+import { Report } from "../src/models/report";
+import { citationMarkers, renumberCitations } from "../src/utils/citations";
+import { muteConsole, scoreReply, result, runResearch, planReply } from "./helpers";
+
+muteConsole();
+
+const report: Report = {
+  title: "EVs",
+  content: [
+    "# EVs",
+    "",
+    "Prices fell 20% [Ref. 1]. Range grew [Ref. 1, 2]! Chargers doubled [Ref. 7].",
+    "No citation here.",
+    "",
+    "## References",
+    "[Ref. 1] Source 1 https://example.com/1",
+  ].join("\n"),
+  sources: [result(1), result(2)],
+};
+
+describe("citation check", () => {
+  it("maps each marker of each sentence to its source, ignoring the references section", () => {
+    const citations = extractCitations(report);
+
+    assert.deepEqual(citations.map(c => [c.marker, c.sentence, c.source?.title, c.status]), [
+      [1, "Prices fell 20% [Ref. 1].", "Source 1", "unverified"],
+      [1, "Range grew [Ref. 1, 2]!", "Source 1", "unverified"],
+      [2, "Range grew [Ref. 1, 2]!", "Source 2", "unverified"],
+      [7, "Chargers doubled [Ref. 7].", undefined, "dangling"],
+    ]);
+  });
+
+  it("asks the verifier about cited sources only and records its verdicts", async () => {
+    const llm = new ScriptedLLMProvider({
+      verifier: '{"checks": [{"claim": 1, "supported": true}, {"claim": 2, "supported": true}, {"claim": 3, "supported": false, "reason": "no range data"}]}',
+    });
+
+    const { citations, fallback } = await verifyCitations(extractCitations(report), llm);
+
+    assert.deepEqual(citations.map(c => c.status), ["supported", "supported", "unsupported", "dangling"]);
+    assert.equal(citations[2].reason, "no range data");
+    assert.equal(fallback, undefined);
+    assert.equal(llm.calls.length, 1);
+    assert.doesNotMatch(llm.calls[0].prompt, /Chargers doubled/);
+  });
+
+  it("leaves citations unverified and records a fallback when the verifier fails", async () => {
+    const llm = new ScriptedLLMProvider({ verifier: new Error("quota") });
+
+    const { citations, fallback } = await verifyCitations(extractCitations(report), llm);
+
+    assert.deepEqual(citations.map(c => c.status), ["unverified", "unverified", "unverified", "dangling"]);
+    assert.deepEqual(fallback, { reason: "quota", action: "left 3 citations unverified" });
+  });
+
+  it("flags unsupported and dangling citations after their sentence", async () => {
+    const llm = new ScriptedLLMProvider({
+      verifier: '{"checks": [{"claim": 1, "supported": true}, {"claim": 2, "supported": true}, {"claim": 3, "supported": false}]}',
+    });
+    const { citations } = await verifyCitations(extractCitations(report), llm);
+
+    const flagged = flagCitations(report.content, citations);
+
+    assert.match(flagged, /Prices fell 20% \[Ref\. 1\]\. Range grew \[Ref\. 1, 2\]! \*\(citation check: \[Ref\. 2\] does not support this\)\*/);
+    assert.match(flagged, /Chargers doubled \[Ref\. 7\]\. \*\(citation check: \[Ref\. 7\] does not exist\)\*/);
+  });
+
+  it("reads ranges of references as every number in them, and writes them out when renumbering", () => {
+    assert.deepEqual(citationMarkers("[Ref. 1-3, 5]"), [1, 2, 3, 5]);
+    assert.deepEqual(citationMarkers("[Ref. 2 – 4]"), [2, 3, 4]);
+    assert.deepEqual(citationMarkers("[Ref. 3-1]"), [3, 1]);
+    assert.equal(renumberCitations("[Ref. 1-3] and [Ref. 2, 1]", new Map([[1, 3], [2, 1], [3, 2]])),
+      "[Ref. 3, 1, 2] and [Ref. 1, 3]");
+  });
+
+  it("flags the occurrence of a repeated sentence that failed the check", async () => {
+    const repeated: Report = { ...report, content: "# EVs\n\nPrices fell [Ref. 1].\n\nLater:\nPrices fell [Ref. 1]. Sales rose [Ref. 1-2]." };
+    const llm = new ScriptedLLMProvider({
+      verifier: '{"checks": [{"claim": 1, "supported": true}, {"claim": 2, "supported": false}, {"claim": 3, "supported": true}, {"claim": 4, "supported": true}]}',
+    });
+    const { citations } = await verifyCitations(extractCitations(repeated), llm);
+
+    assert.deepEqual(citations.map(c => [c.marker, c.status]), [[1, "supported"], [1, "unsupported"], [1, "supported"], [2, "supported"]]);
+    assert.equal(flagCitations(repeated.content, citations),
+      "# EVs\n\nPrices fell [Ref. 1].\n\nLater:\nPrices fell [Ref. 1]. *(citation check: [Ref. 1] does not support this)* Sales rose [Ref. 1-2].");
+  });
+});
+
+describe("Verify node", () => {
+  const script: Script = {
+    planner: planReply(["q1"]),
+    summarizer: "summary",
+    evaluator: '{"isComplete": true, "queries": []}',
+    filter: scoreReply({ 1: 8 }),
+    writer: ["# EVs\n\nPrices fell [Ref. 1]. Sales tripled [Ref. 4].", "# EVs\n\nPrices fell [Ref. 1]."],
+    verifier: '{"checks": [{"claim": 1, "supported": true}]}',
+  };
+
+  it("has the writer revise problem sentences in revise mode", async () => {
+    const llm = new ScriptedLLMProvider(script);
+    const search = new StaticSearchProvider({ q1: [result(1)] });
+
+    const { state } = await runResearch("EVs", { llm, search, configurable: { citations: "revise", reportMode: "single" } });
+
+    assert.equal(llm.callsFor("writer").length, 2);
+    assert.match(llm.callsFor("writer")[1].prompt, /"Sales tripled \[Ref\. 4\]\.": \[Ref\. 4\] the report has no source 4/);
+    assert.equal(state.report?.content, "# EVs\n\nPrices fell [Ref. 1].");
+    assert.deepEqual(state.report?.citations?.map(c => c.status), ["supported"]);
+  });
+
+  it("is skipped when citations are off", async () => {
+    const llm = new ScriptedLLMProvider(script);
+    const search = new StaticSearchProvider({ q1: [result(1)] });
+
+    const { visited, state } = await runResearch("EVs", { llm, search, configurable: { citations: "off" } });
+
+    assert.deepEqual(visited, ["Plan", "Search", "Evaluate", "Merge", "Write"]);
+    assert.equal(state.report?.citations, undefined);
+    assert.deepEqual(state.report?.sources.map(s => s.link), ["https://example.com/1"]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { assembleReport, generateSectionedReport, regenerateSections, splitSections } from "../src/nodes/write";
+import { GenerateRequest, ScriptedLLMProvider } from "../src/providers/llm";
+import { SearchResults } from "../src/models/search";
+import { ReportSection } from "../src/models/report";
+import { muteConsole, result } from "./helpers";
+
+muteConsole();
+
+const sources = new SearchResults([result(1), result(2), result(3)]);
+
+const outline = JSON.stringify({
+  title: "EV Guide",
+  sections: [
+    { heading: "Prices", description: "What EVs cost", sources: [3, 9] },
+    { heading: "Charging", description: "Where to charge", sources: [1, 2] },
+    { heading: "Empty", description: "Nothing", sources: [7] },
+  ],
+});
+
+// Section text naming the section or part it was asked for
+function writer(request: GenerateRequest): string {
+  if (request.responseSchema) return outline;
+  const section = request.prompt.match(/^Section: (.*)$/m);
+  if (section?.[1] === "Prices") return "## Prices\n\nPrices fell [Ref. 3].";
+  if (section?.[1] === "Charging") return "Chargers doubled [Ref. 2, 1].";
+  return request.prompt.startsWith("Write the introduction") ? "Intro [Ref. 1]." : "Wrap-up.";
+}
+
+describe("sectioned reports", () => {
+  it("writes each section from its own sources and renumbers citations in order of appearance", async () => {
+    const llm = new ScriptedLLMProvider({ writer });
+
+    const { report, fallback } = await generateSectionedReport("EVs", sources, llm);
+
+    assert.equal(fallback, undefined);
+    const sectionPrompts = llm.calls.filter(call => /^Section: /m.test(call.prompt)).map(call => call.prompt);
+    assert.match(sectionPrompts[0], /\[3\] Title: Source 3/);
+    assert.doesNotMatch(sectionPrompts[0], /Source 1|Source 2/);
+    assert.deepEqual(report.sections?.map(s => [s.heading, s.sources]), [
+      ["Introduction", []], ["Prices", [2]], ["Charging", [1, 3]], ["Conclusion", []],
+    ]);
+    // [Ref. 1] of the introduction (source 1) now comes first, then source 3, then source 2
+    assert.deepEqual(report.sources.map(s => s.title), ["Source 1", "Source 3", "Source 2"]);
+    assert.equal(report.content, "# EV Guide\n\n## Introduction\n\nIntro [Ref. 1].\n\n## Prices\n\nPrices fell [Ref. 2].\n\n"
+      + "## Charging\n\nChargers doubled [Ref. 3, 1].\n\n## Conclusion\n\nWrap-up.\n\n## References\n\n"
+      + "- [Ref. 1] [Source 1](https://example.com/1)\n- [Ref. 2] [Source 3](https://example.com/3)\n- [Ref. 3] [Source 2](https://example.com/2)");
+  });
+
+  it("writes the report in a single call when no usable outline comes back", async () => {
+    const llm = new ScriptedLLMProvider({ writer: request => request.responseSchema ? "no outline" : "# EVs\n\nBody [Ref. 1]" });
+
+    const { report, fallback } = await generateSectionedReport("EVs", sources, llm);
+
+    assert.equal(report.content, "# EVs\n\nBody [Ref. 1]");
+    assert.equal(report.sections, undefined);
+    assert.equal(fallback?.action, "wrote the report in a single call");
+  });
+
+  it("rewrites only the requested sections and keeps the numbering consistent", async () => {
+    const sections: ReportSection[] = [
+      { kind: "introduction", heading: "Introduction", sources: [], content: "Intro." },
+      { kind: "body", heading: "Prices", sources: [1], content: "Prices fell [Ref. 1]." },
+      { kind: "body", heading: "Charging", sources: [2], content: "Chargers doubled [Ref. 2]." },
+    ];
+    const report = assembleReport("EV Guide", sections, [result(1), result(2)]);
+    const llm = new ScriptedLLMProvider({ writer: "Chargers tripled [Ref. 2]." });
+
+    const rewritten = await regenerateSections("EVs", report, [3], llm);
+
+    assert.equal(llm.calls.length, 1);
+    assert.match(llm.calls[0].prompt, /Section: Charging/);
+    assert.deepEqual(rewritten.sections?.map(s => s.content), ["Intro.", "Prices fell [Ref. 1].", "Chargers tripled [Ref. 2]."]);
+    await assert.rejects(regenerateSections("EVs", report, [4], llm), /no section 4/);
+  });
+
+  it("splits a report revised as a whole into its sections, unless they changed", () => {
+    const sections: ReportSection[] = [
+      { kind: "body", heading: "Prices", sources: [1], content: "Prices fell [Ref. 1]." },
+      { kind: "conclusion", heading: "Conclusion", sources: [], content: "End." },
+    ];
+    const revised = "# EVs\n\n## Prices\n\nPrices fell.\n\n## Conclusion\n\nEnd.\n\n## References\n\n1. Source 1";
+
+    assert.deepEqual(splitSections(revised, sections)?.map(s => [s.heading, s.content]), [["Prices", "Prices fell."], ["Conclusion", "End."]]);
+    assert.equal(splitSections("# EVs\n\n## Costs\n\nPrices fell.\n\n## Conclusion\n\nEnd.", sections), undefined);
+  });
+
+  it("writes the report and its own headings in the requested language", async () => {
+    const llm = new ScriptedLLMProvider({ writer });
+
+    const { report } = await generateSectionedReport("EVs", sources, llm, { language: "pt" });
+
+    assert.ok(llm.calls.every(call => call.prompt.includes("Write the report in Portuguese, whatever the language of the sources.")));
+    assert.equal(report.language, "pt");
+    assert.deepEqual(report.sections?.map(s => s.heading), ["Introdução", "Prices", "Charging", "Conclusão"]);
+    assert.match(report.content, /## Referências\n\n- \[Ref\. 1\] \[Source 1\]/);
+
+    const rewritten = await regenerateSections("EVs", report, [1], llm);
+    assert.match(llm.calls[llm.calls.length - 1].prompt, /Write the report in Portuguese/);
+    assert.equal(rewritten.language, "pt");
+  });
+});